@@ -2,18 +2,41 @@ import { createServer, IncomingMessage, ServerResponse } from "http";
 import "dotenv/config";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
+import path from "path";
 
 import { Server } from "socket.io";
 import { dbHelpers } from "./lib/db";
 import { User } from "./lib/models";
 import DeploymentManager from "./lib/deployment";
+import credentialManager from "./lib/credentials";
+import deploymentScheduler from "./lib/scheduler";
 import apps from "./routes/apps";
 import caddy from "./routes/caddy";
+import credentials from "./routes/credentials";
 import deploy from "./routes/deploy";
 import systemctl from "./routes/systemctl";
 import system from "./routes/system";
 import user from "./routes/user";
 
+// Whether a GitHub push event changed any file under a directory of the repository.
+// Pushes without a commit list (e.g. a new branch) count as touching everything.
+function pushTouchesDirectory(payload: any, directory: string): boolean {
+  if (!Array.isArray(payload.commits) || payload.commits.length === 0) {
+    return true;
+  }
+
+  const normalized = path.posix.normalize(directory).replace(/\/+$/, '');
+  if (normalized === '.') {
+    return true;
+  }
+
+  const prefix = `${normalized}/`;
+  return payload.commits.some((commit: any) =>
+    [...(commit.added || []), ...(commit.removed || []), ...(commit.modified || [])]
+      .some((file: string) => file.startsWith(prefix))
+  );
+}
+
 const port = parseInt(process.env.PORT || "8008", 10);
 const server = createServer(async (req, res) => {
   if (req.method === 'POST' && req.url?.startsWith('/webhook/github/')) {
@@ -51,15 +74,15 @@ const server = createServer(async (req, res) => {
           return res.end(`Ignored push to ${payload.ref}`);
         }
 
-        // Trigger deployment
-        DeploymentManager.deployFromGit({
-          appName: app.name,
-          repository: app.repository_url,
-          branch: app.branch,
-          startCommand: app.start_command,
-          buildCommand: app.build_command,
-          installCommand: app.install_command,
-          runtime: app.runtime
+        // Monorepo apps only deploy when the push changed something under their root directory
+        if (app.root_directory && !pushTouchesDirectory(payload, app.root_directory)) {
+          res.writeHead(200); // OK but ignored
+          return res.end(`Ignored push without changes under ${app.root_directory}`);
+        }
+
+        // Trigger deployment with the app's settings
+        DeploymentManager.redeploy(app.name).catch(error => {
+          console.error('Webhook deployment error:', error);
         });
 
         res.writeHead(200);
@@ -80,6 +103,19 @@ const io = new Server(server, {cors: {origin: "*"}});
 // Set up the deployment manager with Socket.IO server for real-time streaming
 DeploymentManager.setSocketServer(io);
 
+// Move tokens out of repository URLs saved before the credential store existed
+try {
+  const migratedApps = credentialManager.migrateRepositoryUrls();
+  if (migratedApps > 0) {
+    console.log(`Moved credentials of ${migratedApps} repository URL(s) into the credential store`);
+  }
+} catch (error) {
+  console.error('Failed to migrate repository credentials:', error);
+}
+
+// Queue scheduled deployments, starting with runs missed while the host was down
+deploymentScheduler.start();
+
 
 io.on("connection", (socket) => {
   console.log(`${socket.id}-> User connected`);
@@ -87,6 +123,7 @@ io.on("connection", (socket) => {
   try{
     apps(io, socket);
     caddy(io, socket);
+    credentials(io, socket);
     deploy(io, socket);
     systemctl(io, socket);
     system(io, socket);
@@ -0,0 +1,693 @@
+import { promises as fs, createWriteStream, WriteStream } from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { Readable, pipeline } from 'stream';
+import { finished } from 'stream/promises';
+import type { FileHandle } from 'fs/promises';
+import { dbHelpers } from './db';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export interface ExtractionLimits {
+  maxBytes: number; // Total uncompressed size of the files
+  maxFiles: number; // Files, directories and symlinks together
+}
+
+export interface ExtractionResult {
+  format: ArchiveFormat;
+  files: number;
+  bytes: number;
+  unwrapped: string | null; // Single top-level directory the contents were moved out of
+  skipped: number; // Hard links, devices and other entries that are not extracted
+}
+
+// Symlinks are created once every file is in place, so no entry can be written through one
+interface PendingSymlink {
+  name: string;
+  target: string;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const TAR_BLOCK_SIZE = 512;
+
+// Largest pax header or GNU long name kept in memory
+const MAX_TAR_METADATA_BYTES = 1024 * 1024;
+
+// Largest symlink entry of a zip archive, its target is read into memory
+const MAX_ZIP_SYMLINK_BYTES = 64 * 1024;
+
+// Archives are read in chunks of this size, so an upload never has to fit in memory
+const READ_CHUNK_BYTES = 64 * 1024;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[i] = value >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, data: Buffer): number => {
+  let value = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    value = CRC32_TABLE[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+  }
+  return (value ^ 0xffffffff) >>> 0;
+};
+
+// A file being extracted. Errors of the underlying stream, like a directory in the way
+// or a full disk, reject the next write or close instead of going unhandled.
+class EntryFile {
+  private error: Error | null = null;
+
+  constructor(private stream: WriteStream) {
+    stream.on('error', error => {
+      this.error = error;
+    });
+  }
+
+  async write(data: Buffer) {
+    if (this.error) throw this.error;
+    if (this.stream.write(data)) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        this.stream.off('error', onError);
+        resolve();
+      };
+      const onError = (error: Error) => {
+        this.stream.off('drain', onDrain);
+        reject(error);
+      };
+      this.stream.once('drain', onDrain);
+      this.stream.once('error', onError);
+    });
+  }
+
+  async close() {
+    if (this.error) throw this.error;
+    this.stream.end();
+    await finished(this.stream);
+  }
+
+  // Give up on the file after a failure elsewhere, releasing its descriptor
+  destroy() {
+    this.stream.destroy();
+  }
+}
+
+// Writes the entries of an archive below a root directory, keeping count of what was written
+class ExtractionTarget {
+  files = 0;
+  bytes = 0;
+  skipped = 0;
+  private names: string[] = [];
+  private symlinks: PendingSymlink[] = [];
+
+  constructor(private root: string, private limits: ExtractionLimits) {}
+
+  /**
+   * Normalize an entry name, rejecting names that would land outside the root.
+   * Returns null for entries naming the root itself, like `./` in tarballs.
+   */
+  normalizeName(name: string): string | null {
+    if (name.includes('\0')) {
+      throw new Error(`Invalid archive: entry name contains a NUL byte`);
+    }
+
+    const unixName = name.replace(/\\/g, '/');
+    if (unixName.startsWith('/') || /^[a-zA-Z]:/.test(unixName)) {
+      throw new Error(`Invalid archive: entry ${name} has an absolute path`);
+    }
+    if (unixName.split('/').includes('..')) {
+      throw new Error(`Invalid archive: entry ${name} points outside the archive`);
+    }
+
+    const normalized = path.posix.normalize(unixName).replace(/\/+$/, '');
+    if (normalized === '.' || normalized === '') {
+      return null;
+    }
+    return normalized;
+  }
+
+  /**
+   * Count an entry against the file limit and get the path it is extracted to
+   */
+  resolveEntry(name: string): string {
+    this.files++;
+    if (this.files > this.limits.maxFiles) {
+      throw new Error(`Archive has more than ${this.limits.maxFiles} entries`);
+    }
+
+    const target = path.resolve(this.root, name);
+    if (!target.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid archive: entry ${name} points outside the archive`);
+    }
+
+    this.names.push(name);
+    return target;
+  }
+
+  /**
+   * Count bytes of file content against the size limit
+   */
+  addBytes(count: number) {
+    this.bytes += count;
+    if (this.bytes > this.limits.maxBytes) {
+      throw new Error(`Archive expands to more than ${Math.floor(this.limits.maxBytes / 1024 / 1024)} MB`);
+    }
+  }
+
+  /**
+   * Check that an entry's declared size still fits, before any of it is written
+   */
+  checkSize(size: number) {
+    if (this.bytes + size > this.limits.maxBytes) {
+      throw new Error(`Archive expands to more than ${Math.floor(this.limits.maxBytes / 1024 / 1024)} MB`);
+    }
+  }
+
+  async addDirectory(name: string) {
+    await fs.mkdir(this.resolveEntry(name), { recursive: true });
+  }
+
+  async openFile(name: string, mode: number): Promise<EntryFile> {
+    const target = this.resolveEntry(name);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Only the executable bit is kept from the archive
+    return new EntryFile(createWriteStream(target, { mode: mode & 0o111 ? 0o755 : 0o644 }));
+  }
+
+  addSymlink(name: string, target: string) {
+    this.resolveEntry(name);
+    this.symlinks.push({ name, target });
+  }
+
+  /**
+   * Move the contents of a single top-level directory up to the root, then create the symlinks
+   */
+  async finish(): Promise<string | null> {
+    const unwrapped = this.getWrappingDirectory();
+    if (unwrapped) {
+      // Rename first, the directory may contain an entry with its own name
+      const wrapperPath = path.join(this.root, `.unwrap-${process.pid}-${Date.now()}`);
+      await fs.rename(path.join(this.root, unwrapped), wrapperPath);
+      for (const entry of await fs.readdir(wrapperPath)) {
+        await fs.rename(path.join(wrapperPath, entry), path.join(this.root, entry));
+      }
+      await fs.rmdir(wrapperPath);
+    }
+
+    const realRoot = await fs.realpath(this.root);
+    for (const symlink of this.symlinks) {
+      const name = unwrapped ? symlink.name.slice(unwrapped.length + 1) : symlink.name;
+      const linkPath = path.join(this.root, name);
+
+      const resolved = path.resolve(path.dirname(linkPath), symlink.target);
+      if (path.isAbsolute(symlink.target) || (resolved !== this.root && !resolved.startsWith(this.root + path.sep))) {
+        throw new Error(`Invalid archive: symlink ${symlink.name} points outside the archive`);
+      }
+
+      // Links created before may lead out together, never create anything through them
+      await this.assertInsideRoot(path.dirname(linkPath), realRoot, symlink.name);
+      await fs.mkdir(path.dirname(linkPath), { recursive: true });
+      await fs.symlink(symlink.target, linkPath);
+    }
+
+    // A chain of symlinks can still lead out, even if every single one stays inside
+    for (const symlink of this.symlinks) {
+      const name = unwrapped ? symlink.name.slice(unwrapped.length + 1) : symlink.name;
+      let resolved: string;
+      try {
+        resolved = await fs.realpath(path.join(this.root, name));
+      } catch {
+        continue; // Dangling
+      }
+      if (resolved !== realRoot && !resolved.startsWith(realRoot + path.sep)) {
+        throw new Error(`Invalid archive: symlink ${symlink.name} points outside the archive`);
+      }
+    }
+
+    return unwrapped;
+  }
+
+  // Reject a path whose deepest existing ancestor really is outside the root
+  private async assertInsideRoot(target: string, realRoot: string, name: string) {
+    let existing = target;
+    let resolved: string;
+    for (;;) {
+      try {
+        resolved = await fs.realpath(existing);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || existing === this.root) {
+          throw error;
+        }
+        existing = path.dirname(existing);
+      }
+    }
+
+    if (resolved !== realRoot && !resolved.startsWith(realRoot + path.sep)) {
+      throw new Error(`Invalid archive: symlink ${name} is below a symlink leading outside the archive`);
+    }
+  }
+
+  // The top-level directory every entry lives in, if there is exactly one
+  private getWrappingDirectory(): string | null {
+    const [first] = this.names;
+    if (!first) {
+      return null;
+    }
+
+    const top = first.split('/')[0];
+    const hasChildren = this.names.some(name => name.startsWith(`${top}/`));
+    const allInside = this.names.every(name => name === top || name.startsWith(`${top}/`));
+    const isSymlink = this.symlinks.some(symlink => symlink.name === top);
+
+    return hasChildren && allInside && !isSymlink ? top : null;
+  }
+}
+
+// Bytes of a stream, taken out in exact amounts
+class ByteQueue {
+  private chunks: Buffer[] = [];
+  length = 0;
+
+  push(chunk: Buffer) {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  take(count: number): Buffer {
+    const taken: Buffer[] = [];
+    let remaining = count;
+
+    while (remaining > 0) {
+      const chunk = this.chunks[0];
+      if (chunk.length <= remaining) {
+        taken.push(chunk);
+        this.chunks.shift();
+        remaining -= chunk.length;
+      } else {
+        taken.push(chunk.subarray(0, remaining));
+        this.chunks[0] = chunk.subarray(remaining);
+        remaining = 0;
+      }
+    }
+
+    this.length -= count;
+    return taken.length === 1 ? taken[0] : Buffer.concat(taken);
+  }
+}
+
+class ArchiveExtractor {
+  /**
+   * Tell the format of an archive from its first bytes
+   */
+  detectFormat(buffer: Buffer): ArchiveFormat | null {
+    if (buffer.length >= 4 && (buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER || buffer.readUInt32LE(0) === ZIP_END_OF_CENTRAL_DIRECTORY)) {
+      return 'zip';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+      return 'tar.gz';
+    }
+    return null;
+  }
+
+  /**
+   * Limits uploads are extracted with, from the `archive_max_size_mb` and `archive_max_files` settings
+   */
+  getLimits(): ExtractionLimits {
+    const maxSizeMb = parseInt(dbHelpers.getSetting('archive_max_size_mb') || '1024', 10) || 1024;
+    const maxFiles = parseInt(dbHelpers.getSetting('archive_max_files') || '100000', 10) || 100000;
+    return { maxBytes: maxSizeMb * 1024 * 1024, maxFiles };
+  }
+
+  /**
+   * Extract a zip or gzipped tar archive file into a directory. The archive is streamed
+   * from disk, never read into memory as a whole. Entries are never written outside of
+   * the directory, and a single top-level directory is unwrapped.
+   */
+  async extract(archivePath: string, destination: string, limits: ExtractionLimits = this.getLimits()): Promise<ExtractionResult> {
+    const handle = await fs.open(archivePath, 'r');
+    try {
+      const format = this.detectFormat(await this.readBytes(handle, 0, 4));
+      if (!format) {
+        throw new Error('Unsupported archive format, upload a .zip, .tar.gz or .tgz file');
+      }
+
+      await fs.mkdir(destination, { recursive: true });
+      const target = new ExtractionTarget(path.resolve(destination), limits);
+
+      if (format === 'zip') {
+        await this.extractZip(handle, target);
+      } else {
+        await this.extractTarGz(handle, target);
+      }
+
+      const unwrapped = await target.finish();
+      return { format, files: target.files, bytes: target.bytes, unwrapped, skipped: target.skipped };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // Read up to `length` bytes of an archive at `position`, fewer at its end
+  private async readBytes(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  }
+
+  // Stream `length` bytes of an archive from `position`, failing when the file ends before
+  private async *readRange(handle: FileHandle, position: number, length: number): AsyncGenerator<Buffer> {
+    const end = position + length;
+    while (position < end) {
+      const chunk = await this.readBytes(handle, position, Math.min(READ_CHUNK_BYTES, end - position));
+      if (chunk.length === 0) {
+        throw new Error('Invalid archive: unexpected end of file');
+      }
+      position += chunk.length;
+      yield chunk;
+    }
+  }
+
+  private async extractZip(handle: FileHandle, target: ExtractionTarget) {
+    const { size: fileSize } = await handle.stat();
+
+    // The end of central directory record sits in the last 64 KB, after an optional comment
+    const tailOffset = Math.max(0, fileSize - 22 - 0xffff);
+    const tail = await this.readBytes(handle, tailOffset, fileSize - tailOffset);
+    let endOffset = -1;
+    for (let offset = tail.length - 22; offset >= 0; offset--) {
+      if (tail.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+        endOffset = offset;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('Invalid archive: zip end of central directory not found');
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('Unsupported archive: ZIP64 archives are not supported');
+    }
+    if (directoryOffset + directorySize > tailOffset + endOffset) {
+      throw new Error('Invalid archive: corrupt zip central directory');
+    }
+
+    // Only the central directory is held in memory, entry data is streamed
+    const directory = await this.readBytes(handle, directoryOffset, directorySize);
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+        throw new Error('Invalid archive: corrupt zip central directory');
+      }
+
+      const madeBy = directory.readUInt16LE(offset + 4) >> 8;
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      const crc = directory.readUInt32LE(offset + 16);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const size = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const externalAttributes = directory.readUInt32LE(offset + 38);
+      const localOffset = directory.readUInt32LE(offset + 42);
+      const rawName = directory.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      const name = target.normalizeName(rawName);
+      if (!name) continue;
+
+      // Unix permissions are only stored by archivers running on Unix
+      const mode = madeBy === 3 ? externalAttributes >>> 16 : 0;
+      const fileType = mode & 0o170000;
+      if (rawName.endsWith('/') || rawName.endsWith('\\') || fileType === 0o040000) {
+        await target.addDirectory(name);
+        continue;
+      }
+      if (fileType !== 0 && fileType !== 0o100000 && fileType !== 0o120000) {
+        target.skipped++;
+        continue;
+      }
+
+      if (flags & 0x1) {
+        throw new Error(`Unsupported archive: ${rawName} is encrypted`);
+      }
+      if (method !== 0 && method !== 8) {
+        throw new Error(`Unsupported archive: ${rawName} uses compression method ${method}`);
+      }
+
+      const localHeader = await this.readBytes(handle, localOffset, 30);
+      if (localHeader.length < 30 || localHeader.readUInt32LE(0) !== ZIP_LOCAL_HEADER) {
+        throw new Error(`Invalid archive: corrupt zip entry ${rawName}`);
+      }
+      const dataOffset = localOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+      if (dataOffset + compressedSize > fileSize) {
+        throw new Error(`Invalid archive: zip entry ${rawName} is truncated`);
+      }
+
+      if (fileType === 0o120000) {
+        if (compressedSize > MAX_ZIP_SYMLINK_BYTES) {
+          throw new Error(`Invalid archive: symlink ${rawName} is too long`);
+        }
+        const data = await this.readBytes(handle, dataOffset, compressedSize);
+        const linkTarget = method === 8 ? zlib.inflateRawSync(data, { maxOutputLength: 4096 }) : data;
+        target.addSymlink(name, linkTarget.toString('utf8'));
+        continue;
+      }
+
+      target.checkSize(size);
+      await this.writeZipEntry(rawName, this.readRange(handle, dataOffset, compressedSize), method, size, crc, await target.openFile(name, mode), target);
+    }
+  }
+
+  private async writeZipEntry(rawName: string, data: AsyncIterable<Buffer>, method: number, size: number, crc: number, output: EntryFile, target: ExtractionTarget) {
+    let written = 0;
+    let actualCrc = 0;
+
+    // Errors of either stream end up in the loop below
+    const content = method === 8 ? pipeline(Readable.from(data), zlib.createInflateRaw(), () => {}) : Readable.from(data);
+
+    try {
+      // Declared sizes are checked while inflating, an archive bomb never gets past them
+      for await (const chunk of content as AsyncIterable<Buffer>) {
+        written += chunk.length;
+        if (written > size) {
+          throw new Error(`Invalid archive: ${rawName} is larger than declared`);
+        }
+        target.addBytes(chunk.length);
+        actualCrc = updateCrc32(actualCrc, chunk);
+        await output.write(chunk);
+      }
+      await output.close();
+    } catch (error) {
+      output.destroy();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(message.startsWith('Invalid archive') || message.startsWith('Archive') ? message : `Invalid archive: failed to extract ${rawName}: ${message}`);
+    }
+
+    if (written !== size || actualCrc !== crc) {
+      throw new Error(`Invalid archive: ${rawName} is corrupt`);
+    }
+  }
+
+  private async extractTarGz(handle: FileHandle, target: ExtractionTarget) {
+    const { size: fileSize } = await handle.stat();
+    const queue = new ByteQueue();
+    let ended = false;
+
+    // Entry whose content is being read, content of anything but files and metadata is skipped over
+    let entry: { type: string; output: EntryFile | null; metadata: Buffer[] | null } | null = null;
+    let remaining = 0;
+    let padding = 0;
+
+    // Names from pax headers and GNU long name entries apply to the next entry
+    let nextName: string | null = null;
+    let nextLinkName: string | null = null;
+
+    const finishEntry = async () => {
+      if (!entry) return;
+
+      if (entry.output) {
+        await entry.output.close();
+      } else if (entry.metadata && entry.type === 'x') {
+        const attributes = this.parsePaxHeader(Buffer.concat(entry.metadata));
+        nextName = attributes.path ?? nextName;
+        nextLinkName = attributes.linkpath ?? nextLinkName;
+      } else if (entry.metadata && entry.type === 'L') {
+        nextName = Buffer.concat(entry.metadata).toString('utf8').replace(/\0.*$/s, '');
+      } else if (entry.metadata && entry.type === 'K') {
+        nextLinkName = Buffer.concat(entry.metadata).toString('utf8').replace(/\0.*$/s, '');
+      }
+      entry = null;
+    };
+
+    try {
+      for await (const chunk of pipeline(Readable.from(this.readRange(handle, 0, fileSize)), zlib.createGunzip(), () => {})) {
+        queue.push(chunk as Buffer);
+
+        while (!ended) {
+          if (entry) {
+            if (remaining > 0) {
+              if (queue.length === 0) break;
+              const data = queue.take(Math.min(remaining, queue.length));
+              remaining -= data.length;
+
+              if (entry.output) {
+                target.addBytes(data.length);
+                await entry.output.write(data);
+              } else if (entry.metadata) {
+                entry.metadata.push(data);
+              }
+            }
+            if (remaining > 0) break;
+
+            if (queue.length < padding) break;
+            queue.take(padding);
+            await finishEntry();
+            continue;
+          }
+
+
+          if (queue.length < TAR_BLOCK_SIZE) break;
+          const header = queue.take(TAR_BLOCK_SIZE);
+
+          // The archive ends with zero blocks
+          if (header.every(byte => byte === 0)) {
+            ended = true;
+            break;
+          }
+
+          const parsed = this.parseTarHeader(header);
+          const name = nextName ?? parsed.name;
+          const linkName = nextLinkName ?? parsed.linkName;
+          const isMetadata = parsed.type === 'x' || parsed.type === 'g' || parsed.type === 'L' || parsed.type === 'K';
+          if (!isMetadata) {
+            nextName = null;
+            nextLinkName = null;
+          }
+
+          remaining = parsed.size;
+          padding = (TAR_BLOCK_SIZE - (parsed.size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+          entry = { type: parsed.type, output: null, metadata: isMetadata ? [] : null };
+
+          if (isMetadata) {
+            if (parsed.size > MAX_TAR_METADATA_BYTES) {
+              throw new Error(`Invalid archive: ${parsed.type} header of ${parsed.size} bytes`);
+            }
+            continue;
+          }
+
+          const normalized = target.normalizeName(name);
+          if (!normalized) continue;
+
+          if (parsed.type === '0' || parsed.type === '\0' || parsed.type === '7') {
+            target.checkSize(parsed.size);
+            entry.output = await target.openFile(normalized, parsed.mode);
+          } else if (parsed.type === '5') {
+            await target.addDirectory(normalized);
+          } else if (parsed.type === '2') {
+            target.addSymlink(normalized, linkName);
+          } else {
+            target.skipped++;
+          }
+        }
+
+        // Anything after the end of the archive is never decompressed
+        if (ended) break;
+      }
+    } catch (error) {
+      entry?.output?.destroy();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(message.startsWith('Invalid archive') || message.startsWith('Archive') ? message : `Invalid archive: ${message}`);
+    }
+
+    if (!ended && (entry || queue.length > 0)) {
+      entry?.output?.destroy();
+      throw new Error('Invalid archive: unexpected end of tar data');
+    }
+  }
+
+  private parseTarHeader(header: Buffer) {
+    const readString = (start: number, length: number) => {
+      const field = header.subarray(start, start + length);
+      const end = field.indexOf(0);
+      return field.subarray(0, end === -1 ? length : end).toString('utf8');
+    };
+
+    const readNumber = (start: number, length: number) => {
+      const field = header.subarray(start, start + length);
+      // GNU base-256 encoding for values that do not fit in octal
+      if (field[0] & 0x80) {
+        let value = field[0] & 0x7f;
+        for (let i = 1; i < field.length; i++) value = value * 256 + field[i];
+        return value;
+      }
+      const text = field.toString('ascii').replace(/[\0 ]+$/, '').trim();
+      return text ? parseInt(text, 8) : 0;
+    };
+
+    const storedChecksum = readNumber(148, 8);
+    let checksum = 0;
+    for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+      checksum += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+    if (checksum !== storedChecksum) {
+      throw new Error('Invalid archive: tar header checksum mismatch');
+    }
+
+    const size = readNumber(124, 12);
+    if (!Number.isSafeInteger(size) || size < 0) {
+      throw new Error('Invalid archive: bad tar entry size');
+    }
+
+    // ustar splits long names into a prefix and a name
+    const name = readString(0, 100);
+    const prefix = readString(257, 6).startsWith('ustar') ? readString(345, 155) : '';
+
+    return {
+      name: prefix ? `${prefix}/${name}` : name,
+      mode: readNumber(100, 8),
+      size,
+      type: String.fromCharCode(header[156]),
+      linkName: readString(157, 100)
+    };
+  }
+
+  // Records of a pax header are "<length> <key>=<value>\n"
+  private parsePaxHeader(data: Buffer): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    let offset = 0;
+
+    while (offset < data.length) {
+      const space = data.indexOf(0x20, offset);
+      const length = parseInt(data.subarray(offset, space).toString('ascii'), 10);
+      if (space === -1 || !length || offset + length > data.length) {
+        throw new Error('Invalid archive: corrupt pax header');
+      }
+
+      const record = data.subarray(space + 1, offset + length - 1).toString('utf8');
+      const separator = record.indexOf('=');
+      if (separator > 0) {
+        attributes[record.slice(0, separator)] = record.slice(separator + 1);
+      }
+      offset += length;
+    }
+
+    return attributes;
+  }
+}
+
+export default new ArchiveExtractor();
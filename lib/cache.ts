@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import { dbHelpers } from './db';
+import releaseManager from './releases';
+
+// Lockfiles that pin an app's dependencies, in the order they are hashed
+const LOCKFILES = ['package-lock.json', 'bun.lockb', 'bun.lock', 'yarn.lock', 'requirements.txt', 'poetry.lock'];
+
+// Directories an install command leaves inside the release that are worth caching
+const DEPENDENCY_DIRECTORIES = ['node_modules', '.venv'];
+
+// Directory of a cache entry holding what was captured at the repository root of monorepo apps
+const ROOT_ENTRY_DIRECTORY = 'root';
+
+interface CacheManifest {
+  directories: string[]; // Relative to the app's directory
+  rootDirectories?: string[]; // Relative to the repository root, monorepo apps only
+  createdAt: string;
+}
+
+class DependencyCache {
+  /**
+   * Get the directory holding the dependency cache entries of an app
+   */
+  getCacheDirectory(appName: string): string {
+    return path.join(releaseManager.getAppRoot(appName), 'cache', 'deps');
+  }
+
+  /**
+   * Hash the lockfiles of a release together with the install command.
+   * Apps in a subdirectory of a monorepo pass the repository root too, since a lockfile
+   * there pins their dependencies as well (npm, yarn and bun workspaces). `projectFiles`
+   * of the release are hashed too when the install command installs the project itself.
+   * Returns null when the release has no lockfile, since there is nothing to key the cache on.
+   */
+  async computeKey(releasePath: string, installCommand: string, repositoryRoot?: string, projectFiles: string[] = []): Promise<{ key: string; files: string[] } | null> {
+    const hash = crypto.createHash('sha256');
+    const lockfiles: string[] = [];
+
+    const rootPath = this.getSeparateRoot(releasePath, repositoryRoot);
+    const directories = rootPath ? [releasePath, rootPath] : [releasePath];
+
+    hash.update(`install:${installCommand}\n`);
+    for (const directory of directories) {
+      const prefix = directory === releasePath ? '' : `${path.relative(releasePath, directory)}/`;
+      for (const lockfile of LOCKFILES) {
+        try {
+          const content = await fs.readFile(path.join(directory, lockfile));
+          hash.update(`${prefix}${lockfile}:${content.length}\n`);
+          hash.update(content);
+          lockfiles.push(`${prefix}${lockfile}`);
+        } catch {
+          // Lockfile not used by this app
+        }
+      }
+    }
+
+    if (lockfiles.length === 0) {
+      return null;
+    }
+
+    const files = [...lockfiles];
+    for (const projectFile of projectFiles) {
+      try {
+        const content = await fs.readFile(path.join(releasePath, projectFile));
+        hash.update(`project:${projectFile}:${content.length}\n`);
+        hash.update(content);
+        files.push(projectFile);
+      } catch {
+        // Not used by this project
+      }
+    }
+
+    return { key: hash.digest('hex'), files };
+  }
+
+  /**
+   * Copy cached dependencies into a release. Monorepo apps pass the repository root too,
+   * where workspaces hoist their dependencies. Returns false on a cache miss.
+   */
+  async restore(appName: string, key: string, releasePath: string, repositoryRoot?: string): Promise<boolean> {
+    const entryPath = path.join(this.getCacheDirectory(appName), key);
+    const rootPath = this.getSeparateRoot(releasePath, repositoryRoot);
+
+    let manifest: CacheManifest;
+    try {
+      manifest = JSON.parse(await fs.readFile(path.join(entryPath, 'manifest.json'), 'utf8'));
+    } catch {
+      return false;
+    }
+
+    // Entries of monorepo apps saved before the repository root was captured miss its
+    // dependencies, and an entry without any directory would skip the install for nothing
+    const rootDirectories = rootPath ? manifest.rootDirectories : [];
+    if (!rootDirectories || manifest.directories.length + rootDirectories.length === 0) {
+      return false;
+    }
+
+    for (const directory of manifest.directories) {
+      await this.copyDirectory(path.join(entryPath, directory), path.join(releasePath, directory));
+    }
+    for (const directory of rootDirectories) {
+      await this.copyDirectory(path.join(entryPath, ROOT_ENTRY_DIRECTORY, directory), path.join(rootPath!, directory));
+    }
+
+    // Mark the entry as recently used so pruning keeps it
+    const now = new Date();
+    await fs.utimes(entryPath, now, now).catch(() => {});
+
+    return true;
+  }
+
+  /**
+   * Store the dependencies installed into a release under `key`, then drop old entries.
+   * Nothing is stored when the install left no dependency directory behind, e.g. with
+   * Yarn Plug'n'Play. Returns the directories stored, relative to the app's directory.
+   */
+  async save(appName: string, key: string, releasePath: string, repositoryRoot?: string): Promise<string[]> {
+    const cacheDirectory = this.getCacheDirectory(appName);
+    const entryPath = path.join(cacheDirectory, key);
+    const tempPath = path.join(cacheDirectory, `.tmp-${key}-${Date.now()}`);
+    const rootPath = this.getSeparateRoot(releasePath, repositoryRoot);
+
+    const directories = await this.findDependencyDirectories(releasePath);
+    const rootDirectories = rootPath ? await this.findDependencyDirectories(rootPath) : [];
+    if (directories.length + rootDirectories.length === 0) {
+      return [];
+    }
+
+    try {
+      await fs.mkdir(tempPath, { recursive: true });
+
+      for (const directory of directories) {
+        await this.copyDirectory(path.join(releasePath, directory), path.join(tempPath, directory));
+      }
+      for (const directory of rootDirectories) {
+        await this.copyDirectory(path.join(rootPath!, directory), path.join(tempPath, ROOT_ENTRY_DIRECTORY, directory));
+      }
+
+      const manifest: CacheManifest = {
+        directories,
+        rootDirectories: rootPath ? rootDirectories : undefined,
+        createdAt: new Date().toISOString()
+      };
+      await fs.writeFile(path.join(tempPath, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf8');
+
+      // Swap the complete entry into place so a half-written one is never restored
+      await fs.rm(entryPath, { recursive: true, force: true });
+      await fs.rename(tempPath, entryPath);
+    } catch (error) {
+      await fs.rm(tempPath, { recursive: true, force: true }).catch(() => {});
+      throw new Error(`Failed to save dependency cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    await this.prune(appName);
+    return [...directories, ...rootDirectories.map(directory => path.relative(releasePath, path.join(rootPath!, directory)))];
+  }
+
+  // The repository root of a monorepo app, null when the app lives at the root
+  private getSeparateRoot(releasePath: string, repositoryRoot?: string): string | null {
+    return repositoryRoot && path.resolve(repositoryRoot) !== path.resolve(releasePath) ? repositoryRoot : null;
+  }
+
+  // Dependency directories an install command left in a directory
+  private async findDependencyDirectories(directoryPath: string): Promise<string[]> {
+    const found: string[] = [];
+    for (const directory of DEPENDENCY_DIRECTORIES) {
+      try {
+        const stats = await fs.lstat(path.join(directoryPath, directory));
+        if (stats.isDirectory()) found.push(directory);
+      } catch {
+        // Not created by this install
+      }
+    }
+    return found;
+  }
+
+  // Replace a directory with a copy of another, keeping symlinks as they are
+  private async copyDirectory(sourcePath: string, targetPath: string): Promise<void> {
+    await fs.rm(targetPath, { recursive: true, force: true });
+    await fs.cp(sourcePath, targetPath, { recursive: true, verbatimSymlinks: true });
+  }
+
+  /**
+   * Remove the least recently used entries, keeping `dependency_cache_entries` of them
+   */
+  async prune(appName: string): Promise<void> {
+    const keepCount = parseInt(dbHelpers.getSetting('dependency_cache_entries') || '3', 10) || 3;
+    const cacheDirectory = this.getCacheDirectory(appName);
+
+    let entries: { name: string; mtime: number }[];
+    try {
+      const names = await fs.readdir(cacheDirectory);
+      entries = await Promise.all(names.map(async name => ({
+        name,
+        mtime: (await fs.stat(path.join(cacheDirectory, name))).mtimeMs
+      })));
+    } catch {
+      return;
+    }
+
+    for (const entry of entries.sort((a, b) => b.mtime - a.mtime).slice(keepCount)) {
+      await fs.rm(path.join(cacheDirectory, entry.name), { recursive: true, force: true });
+    }
+  }
+}
+
+export default new DependencyCache();
@@ -3,6 +3,7 @@ import path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { dbHelpers } from './db';
+import releaseManager from './releases';
 
 const execAsync = promisify(exec);
 
@@ -39,14 +40,18 @@ ${dashboardURL} {
       const domains = dbHelpers.getAppDomains(app.id);
       
       if (domains && domains.length > 0) {
+        const isStatic = app.runtime === 'static';
         // Use the port from the database instead of generating from hash
-        const appPort = app.port || this.getAppPort(app.name); // Fallback to old method if port is null
+        const appPort = isStatic ? null : this.getUpstreamPort(app);
+        const siteDirectives = isStatic
+          ? this.getStaticDirectives(app)
+          : `reverse_proxy localhost:${appPort}`;
         
         for (const domain of domains as any[]) {
           config += `
-# App: ${app.name} (Port: ${appPort})
+# App: ${app.name} (${isStatic ? 'Static' : `Port: ${appPort}`})
 ${domain.domain} {
-	reverse_proxy localhost:${appPort}
+	${siteDirectives}
 	
 	# Security headers
 	header {
@@ -94,6 +99,26 @@ www.${domain.domain} {
     return config;
   }
 
+  // Static apps are served straight from the output directory of their current release
+  private getStaticDirectives(app: any): string {
+    const siteRoot = path.join(releaseManager.getCurrentPath(app.name), app.root_directory || '', app.output_directory || 'dist');
+    const directives = [`root * ${siteRoot}`];
+    if (app.spa_fallback) {
+      // Unknown paths get index.html so client-side routing works
+      directives.push('try_files {path} /index.html');
+    }
+    directives.push('file_server');
+    return directives.join('\n\t');
+  }
+
+  // Port of the slot currently serving traffic (blue/green apps switch between two ports)
+  private getUpstreamPort(app: any): number {
+    if (app.active_slot === 'green' && app.green_port) {
+      return app.green_port;
+    }
+    return app.port || this.getAppPort(app.name); // Fallback to old method if port is null
+  }
+
   // Deprecated: Port allocation based on app name hash (kept for backwards compatibility)
   // New apps should use the port field from the database
   private getAppPort(appName: string): number {
@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { dbHelpers } from './db';
+
+export interface GitCredential {
+  host: string;
+  username: string;
+  token: string;
+}
+
+// Prefix of encrypted values, bumped if the format ever changes
+const ENCRYPTION_VERSION = 'v1';
+
+class CredentialManager {
+  private secretKeyPath: string;
+  private encryptionKey: Buffer | null = null;
+
+  constructor() {
+    this.secretKeyPath = path.join(process.cwd(), 'data', 'secret.key');
+  }
+
+  /**
+   * Key tokens are encrypted with. Taken from LITESHIFT_SECRET_KEY, otherwise
+   * generated once and kept in data/secret.key, readable by the owner only.
+   */
+  private getEncryptionKey(): Buffer {
+    if (this.encryptionKey) {
+      return this.encryptionKey;
+    }
+
+    const configuredKey = process.env.LITESHIFT_SECRET_KEY;
+    if (configuredKey) {
+      this.encryptionKey = crypto.createHash('sha256').update(configuredKey).digest();
+      return this.encryptionKey;
+    }
+
+    if (!fs.existsSync(this.secretKeyPath)) {
+      fs.mkdirSync(path.dirname(this.secretKeyPath), { recursive: true });
+      fs.writeFileSync(this.secretKeyPath, crypto.randomBytes(32).toString('hex'), { mode: 0o600, flag: 'wx' });
+    }
+
+    const storedKey = fs.readFileSync(this.secretKeyPath, 'utf8').trim();
+    this.encryptionKey = Buffer.from(storedKey, 'hex');
+    if (this.encryptionKey.length !== 32) {
+      throw new Error(`Invalid secret key in ${this.secretKeyPath}`);
+    }
+    return this.encryptionKey;
+  }
+
+  /**
+   * Encrypt a secret with AES-256-GCM
+   */
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [ENCRYPTION_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  /**
+   * Decrypt a secret produced by `encrypt`
+   */
+  decrypt(encrypted: string): string {
+    const [version, iv, tag, ciphertext] = encrypted.split(':');
+    if (version !== ENCRYPTION_VERSION || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Unsupported encrypted value');
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error('Failed to decrypt credential, the secret key may have changed');
+    }
+  }
+
+  /**
+   * Store a username/token pair for a host, for one app or shared by all apps (`appId` null)
+   */
+  createCredential(appId: number | null, host: string, username: string, token: string): number {
+    const normalizedHost = this.normalizeHost(host);
+    const result = dbHelpers.createGitCredential(appId, normalizedHost, username, this.encrypt(token));
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Replace the token of a credential, and optionally its username
+   */
+  rotateCredential(id: number, token: string, username?: string): void {
+    const updates: any = { token_encrypted: this.encrypt(token) };
+    if (username) updates.username = username;
+    dbHelpers.updateGitCredential(id, updates);
+  }
+
+  /**
+   * Get the decrypted credential an app should use for a repository, or null if
+   * the repository is not fetched over HTTPS or there is no credential for its host
+   */
+  getCredentialForRepository(appId: number, repository: string): GitCredential | null {
+    const host = this.getHttpsHost(repository);
+    if (!host) {
+      return null;
+    }
+
+    const credential = dbHelpers.findGitCredential(appId, host) as any;
+    if (!credential) {
+      return null;
+    }
+
+    return {
+      host,
+      username: credential.username,
+      token: this.decrypt(credential.token_encrypted)
+    };
+  }
+
+  /**
+   * Split the username and password embedded in an HTTPS repository URL from the URL itself
+   */
+  splitRepositoryUrl(repository: string): { url: string; username?: string; password?: string } {
+    let parsed: URL;
+    try {
+      parsed = new URL(repository);
+    } catch {
+      // scp-like SSH URLs such as git@github.com:owner/repo.git
+      return { url: repository };
+    }
+
+    if (!/^https?:$/.test(parsed.protocol) || (!parsed.username && !parsed.password)) {
+      return { url: repository };
+    }
+
+    const username = decodeURIComponent(parsed.username);
+    const password = decodeURIComponent(parsed.password);
+    parsed.username = '';
+    parsed.password = '';
+
+    return { url: parsed.toString(), username, password: password || undefined };
+  }
+
+  /**
+   * Check if a repository URL carries a username or token
+   */
+  hasEmbeddedCredentials(repository: string): boolean {
+    return this.splitRepositoryUrl(repository).url !== repository;
+  }
+
+  /**
+   * Move credentials embedded in the repository URLs of existing apps into the store
+   */
+  migrateRepositoryUrls(): number {
+    let migrated = 0;
+
+    for (const app of dbHelpers.getAllApps() as any[]) {
+      if (!app.repository_url) continue;
+
+      const { url, username, password } = this.splitRepositoryUrl(app.repository_url);
+      if (url === app.repository_url) continue;
+
+      // A token given as the username alone (https://<token>@host) is how GitHub documents it
+      const token = password || username;
+      if (token) {
+        this.createCredential(app.id, new URL(url).host, password ? username! : 'x-access-token', token);
+      }
+      dbHelpers.updateApp(app.id, { repository_url: url });
+      migrated++;
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Show only the last characters of a token
+   */
+  maskToken(token: string): string {
+    return token.length > 8 ? `****${token.slice(-4)}` : '****';
+  }
+
+  /**
+   * Replace every occurrence of the given secrets in a text
+   */
+  redact(text: string, secrets: string[]): string {
+    return secrets
+      .filter(secret => secret.length > 0)
+      .reduce((result, secret) => result.split(secret).join('****'), text);
+  }
+
+  private getHttpsHost(repository: string): string | null {
+    try {
+      const parsed = new URL(repository);
+      return parsed.protocol === 'https:' ? parsed.host.toLowerCase() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private normalizeHost(host: string): string {
+    const trimmed = host.trim().toLowerCase();
+    // Accept a full URL as well as a bare host
+    try {
+      return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).host;
+    } catch {
+      throw new Error(`Invalid host: ${host}`);
+    }
+  }
+}
+
+export default new CredentialManager();
@@ -10,6 +10,10 @@ if (!fs.existsSync(path.dirname(dbPath))) {
 }
 const db = new Database(dbPath);
 
+// Every status a deployment queue item can be in
+const QUEUE_STATUSES = ['queued', 'building', 'completed', 'failed', 'cancelled', 'interrupted', 'awaiting_approval', 'rejected'];
+const queueStatusCheck = QUEUE_STATUSES.map(status => `'${status}'`).join(', ');
+
 // Enable foreign keys
 db.pragma('foreign_keys = ON');
 
@@ -78,7 +82,7 @@ db.exec(`
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     app_name TEXT NOT NULL,
     type TEXT NOT NULL CHECK (type IN ('git', 'file')),
-    status TEXT DEFAULT 'queued' CHECK (status IN ('queued', 'building', 'completed', 'failed')),
+    status TEXT DEFAULT 'queued' CHECK (status IN (${queueStatusCheck})),
     options TEXT NOT NULL,
     logs TEXT DEFAULT '',
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -87,6 +91,72 @@ db.exec(`
     error_message TEXT
   );
 
+  CREATE TABLE IF NOT EXISTS deployment_steps (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_id INTEGER NOT NULL,
+    queue_id INTEGER,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    started_at DATETIME,
+    finished_at DATETIME,
+    duration_ms INTEGER,
+    exit_code INTEGER,
+    error_message TEXT,
+    FOREIGN KEY (deployment_id) REFERENCES deployments (id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS deploy_schedules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL,
+    cron TEXT,
+    run_at TEXT,
+    ref TEXT,
+    missed_runs TEXT NOT NULL DEFAULT 'skip' CHECK (missed_runs IN ('skip', 'run')),
+    enabled INTEGER NOT NULL DEFAULT 1,
+    next_run_at TEXT,
+    last_run_at TEXT,
+    last_status TEXT,
+    last_queue_id INTEGER,
+    last_error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (app_id) REFERENCES apps (id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS deploy_freezes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER,
+    type TEXT NOT NULL CHECK (type IN ('range', 'weekly')),
+    starts_at TEXT,
+    ends_at TEXT,
+    weekdays TEXT,
+    start_time TEXT,
+    end_time TEXT,
+    reason TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (app_id) REFERENCES apps (id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS upload_sessions (
+    id TEXT PRIMARY KEY,
+    app_name TEXT NOT NULL,
+    options TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    received INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS git_credentials (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER,
+    host TEXT NOT NULL,
+    username TEXT NOT NULL,
+    token_encrypted TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (app_id) REFERENCES apps (id) ON DELETE CASCADE
+  );
+
   CREATE TABLE IF NOT EXISTS settings (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     key TEXT UNIQUE NOT NULL,
@@ -99,6 +169,58 @@ db.exec(`
 try { db.exec('ALTER TABLE apps ADD COLUMN webhook_token TEXT'); } catch (e) {}
 try { db.exec('ALTER TABLE apps ADD COLUMN latest_commit_hash TEXT'); } catch (e) {}
 try { db.exec('ALTER TABLE apps ADD COLUMN latest_commit_message TEXT'); } catch (e) {}
+try { db.exec("ALTER TABLE apps ADD COLUMN health_check_type TEXT DEFAULT 'none'"); } catch (e) {}
+try { db.exec("ALTER TABLE apps ADD COLUMN health_check_path TEXT DEFAULT '/'"); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN health_check_timeout INTEGER DEFAULT 5'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN health_check_retries INTEGER DEFAULT 5'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN health_check_interval INTEGER DEFAULT 3'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN health_check_expected_status INTEGER DEFAULT 200'); } catch (e) {}
+try { db.exec("ALTER TABLE apps ADD COLUMN deployment_strategy TEXT DEFAULT 'restart'"); } catch (e) {}
+try { db.exec("ALTER TABLE apps ADD COLUMN active_slot TEXT DEFAULT 'blue'"); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN green_port INTEGER'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN detected_fields TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN output_directory TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN spa_fallback INTEGER DEFAULT 0'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN root_directory TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN git_submodules INTEGER DEFAULT 0'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN git_lfs INTEGER DEFAULT 0'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN clone_depth INTEGER'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN pre_deploy_command TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN post_deploy_command TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN post_deploy_fail_on_error INTEGER DEFAULT 0'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN install_timeout INTEGER'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN build_timeout INTEGER'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN pre_deploy_timeout INTEGER'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN post_deploy_timeout INTEGER'); } catch (e) {}
+try { db.exec('ALTER TABLE apps ADD COLUMN requires_approval INTEGER DEFAULT 0'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN source TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN options TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN release_path TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN commit_hash TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN commit_message TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN queue_id INTEGER'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN previous_commit_hash TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployments ADD COLUMN changes TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployment_queue ADD COLUMN recovery_attempts INTEGER DEFAULT 0'); } catch (e) {}
+try { db.exec('ALTER TABLE deployment_queue ADD COLUMN approval_reason TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployment_queue ADD COLUMN reviewed_by TEXT'); } catch (e) {}
+try { db.exec('ALTER TABLE deployment_queue ADD COLUMN reviewed_at TEXT'); } catch (e) {}
+
+// Python apps used to get the node install command by default, fall back to the runtime default instead
+db.exec("UPDATE apps SET install_command = NULL WHERE runtime = 'python' AND install_command = 'npm install'");
+
+// SQLite cannot change a CHECK constraint in place, so rebuild the queue table
+// when it was created before one of the current statuses existed
+const queueTable = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'deployment_queue'").get() as { sql: string } | undefined;
+if (queueTable && QUEUE_STATUSES.some(status => !queueTable.sql.includes(`'${status}'`))) {
+  db.transaction(() => {
+    const columns = (db.prepare('PRAGMA table_info(deployment_queue)').all() as { name: string }[]).map(column => column.name).join(', ');
+    db.exec('ALTER TABLE deployment_queue RENAME TO deployment_queue_old');
+    db.exec(queueTable.sql.replace(/CHECK \(status IN \([^)]*\)\)/, `CHECK (status IN (${queueStatusCheck}))`));
+    db.exec(`INSERT INTO deployment_queue (${columns}) SELECT ${columns} FROM deployment_queue_old`);
+    db.exec('DROP TABLE deployment_queue_old');
+  })();
+}
 
 // Insert default settings if they don't exist
 const insertDefaultSetting = db.prepare(`
@@ -106,9 +228,20 @@ const insertDefaultSetting = db.prepare(`
 `);
 
 insertDefaultSetting.run('apps_directory', '/var/www/apps');
+insertDefaultSetting.run('keys_directory', '/var/www/keys');
 insertDefaultSetting.run('caddy_config_path', '/etc/caddy/Caddyfile');
 insertDefaultSetting.run('auto_ssl', 'true');
 insertDefaultSetting.run('systemctl_auto_startup', 'true');
+insertDefaultSetting.run('releases_to_keep', '5');
+insertDefaultSetting.run('max_concurrent_deployments', '2');
+insertDefaultSetting.run('blue_green_drain_seconds', '10');
+insertDefaultSetting.run('dependency_cache_entries', '3');
+insertDefaultSetting.run('deploy_step_timeout', '1800');
+insertDefaultSetting.run('log_retention_days', '30');
+insertDefaultSetting.run('queue_recovery_mode', 'interrupt');
+insertDefaultSetting.run('archive_max_size_mb', '1024');
+insertDefaultSetting.run('archive_max_files', '100000');
+insertDefaultSetting.run('upload_max_size_mb', '1024');
 
 // Check if any admin user exists (created during installation via setup.ts)
 const userCount = db.prepare('SELECT COUNT(*) as count FROM users').get() as { count: number };
@@ -173,9 +306,9 @@ export const dbHelpers = {
   
   createApp: (app: any) =>
     db.prepare(`
-      INSERT INTO apps (name, repository_url, branch, deploy_path, start_command, build_command, install_command, runtime, port)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).run(app.name, app.repository_url, app.branch, app.deploy_path, app.start_command, app.build_command, app.install_command, app.runtime || 'node', app.port),
+      INSERT INTO apps (name, repository_url, branch, deploy_path, start_command, build_command, install_command, runtime, port, detected_fields)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(app.name, app.repository_url, app.branch, app.deploy_path, app.start_command, app.build_command, app.install_command, app.runtime || 'node', app.port, app.detected_fields || null),
   
   updateApp: (id: number, updates: any) => {
     const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
@@ -188,7 +321,10 @@ export const dbHelpers = {
 
   // Generate a unique port for a new app
   generateUniquePort: (): number => {
-    const usedPorts = db.prepare('SELECT port FROM apps WHERE port IS NOT NULL').all() as { port: number }[];
+    const usedPorts = db.prepare(`
+      SELECT port FROM apps WHERE port IS NOT NULL
+      UNION SELECT green_port FROM apps WHERE green_port IS NOT NULL
+    `).all() as { port: number }[];
     const usedPortNumbers = new Set(usedPorts.map(p => p.port));
     
     // Start from port 4000 and find the first available port
@@ -238,9 +374,69 @@ export const dbHelpers = {
   deleteAppEnvVar: (appId: number, key: string) =>
     db.prepare('DELETE FROM app_env_vars WHERE app_id = ? AND key = ?').run(appId, key),
 
+  // Git Credentials (app_id NULL means shared by all apps)
+  getGitCredentials: (appId?: number) =>
+    appId === undefined
+      ? db.prepare(`
+          SELECT c.*, a.name as app_name
+          FROM git_credentials c
+          LEFT JOIN apps a ON c.app_id = a.id
+          ORDER BY c.host, a.name
+        `).all()
+      : db.prepare(`
+          SELECT c.*, a.name as app_name
+          FROM git_credentials c
+          LEFT JOIN apps a ON c.app_id = a.id
+          WHERE c.app_id = ? OR c.app_id IS NULL
+          ORDER BY c.host, c.app_id IS NULL
+        `).all(appId),
+
+  getGitCredential: (id: number) =>
+    db.prepare(`
+      SELECT c.*, a.name as app_name
+      FROM git_credentials c
+      LEFT JOIN apps a ON c.app_id = a.id
+      WHERE c.id = ?
+    `).get(id),
+
+  // The app's own credential for a host wins over a shared one
+  findGitCredential: (appId: number, host: string) =>
+    db.prepare(`
+      SELECT * FROM git_credentials
+      WHERE host = ? AND (app_id = ? OR app_id IS NULL)
+      ORDER BY app_id IS NULL, updated_at DESC
+      LIMIT 1
+    `).get(host, appId),
+
+  createGitCredential: (appId: number | null, host: string, username: string, tokenEncrypted: string) =>
+    db.prepare('INSERT INTO git_credentials (app_id, host, username, token_encrypted) VALUES (?, ?, ?, ?)')
+      .run(appId, host, username, tokenEncrypted),
+
+  updateGitCredential: (id: number, updates: any) => {
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = [...Object.values(updates), id];
+    return db.prepare(`UPDATE git_credentials SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`).run(...values);
+  },
+
+  deleteGitCredential: (id: number) =>
+    db.prepare('DELETE FROM git_credentials WHERE id = ?').run(id),
+
   // Deployments
-  createDeployment: (appId: number) =>
-    db.prepare('INSERT INTO deployments (app_id) VALUES (?)').run(appId),
+  createDeployment: (appId: number, details: { source?: string; options?: string; release_path?: string; queue_id?: number } = {}) =>
+    db.prepare('INSERT INTO deployments (app_id, source, options, release_path, queue_id) VALUES (?, ?, ?, ?, ?)')
+      .run(appId, details.source || null, details.options || null, details.release_path || null, details.queue_id || null),
+  
+  getDeployment: (id: number) =>
+    db.prepare('SELECT * FROM deployments WHERE id = ?').get(id),
+  
+  getDeploymentByReleasePath: (releasePath: string) =>
+    db.prepare("SELECT * FROM deployments WHERE release_path = ? AND status = 'success' ORDER BY id DESC LIMIT 1").get(releasePath),
+  
+  updateDeploymentDetails: (id: number, updates: any) => {
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = [...Object.values(updates), id];
+    return db.prepare(`UPDATE deployments SET ${setClause} WHERE id = ?`).run(...values);
+  },
   
   updateDeployment: (id: number, status: string, log?: string) => {
     if (log) {
@@ -252,6 +448,10 @@ export const dbHelpers = {
   
   getAppDeployments: (appId: number, limit: number = 10) =>
     db.prepare('SELECT * FROM deployments WHERE app_id = ? ORDER BY deployed_at DESC LIMIT ?').all(appId, limit),
+  
+  // Latest successful deployment with a recorded commit changelog
+  getLatestDeploymentChanges: (appId: number) =>
+    db.prepare(`SELECT * FROM deployments WHERE app_id = ? AND status = 'success' AND changes IS NOT NULL ORDER BY id DESC LIMIT 1`).get(appId),
 
   clearAppHistory: (appName: string) => {
     const app = dbHelpers.getAppByName(appName) as any;
@@ -261,15 +461,38 @@ export const dbHelpers = {
     db.prepare('DELETE FROM deployment_queue WHERE app_name = ?').run(appName);
   },
 
+  // Deployment Steps, in the order they ran
+  createDeploymentStep: (deploymentId: number, queueId: number | null, name: string, status: string, startedAt: string | null) =>
+    db.prepare('INSERT INTO deployment_steps (deployment_id, queue_id, name, status, started_at) VALUES (?, ?, ?, ?, ?)')
+      .run(deploymentId, queueId, name, status, startedAt),
+
+  getDeploymentStep: (id: number) =>
+    db.prepare('SELECT * FROM deployment_steps WHERE id = ?').get(id),
+
+  updateDeploymentStep: (id: number, updates: any) => {
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = [...Object.values(updates), id];
+    return db.prepare(`UPDATE deployment_steps SET ${setClause} WHERE id = ?`).run(...values);
+  },
+
+  getDeploymentSteps: (deploymentId: number) =>
+    db.prepare('SELECT * FROM deployment_steps WHERE deployment_id = ? ORDER BY id').all(deploymentId),
+
+  getQueueItemSteps: (queueId: number) =>
+    db.prepare('SELECT * FROM deployment_steps WHERE queue_id = ? ORDER BY id').all(queueId),
+
   // Deployment Queue
-  createQueueItem: (appName: string, type: string, options: string) =>
-    db.prepare('INSERT INTO deployment_queue (app_name, type, options) VALUES (?, ?, ?)').run(appName, type, options),
+  createQueueItem: (appName: string, type: string, options: string, approvalReason?: string) =>
+    approvalReason
+      ? db.prepare(`INSERT INTO deployment_queue (app_name, type, options, status, approval_reason) VALUES (?, ?, ?, 'awaiting_approval', ?)`)
+          .run(appName, type, options, approvalReason)
+      : db.prepare('INSERT INTO deployment_queue (app_name, type, options) VALUES (?, ?, ?)').run(appName, type, options),
   
   updateQueueStatus: (id: number, status: string, errorMessage?: string) => {
     const now = new Date().toISOString();
     if (status === 'building') {
       return db.prepare('UPDATE deployment_queue SET status = ?, started_at = ? WHERE id = ?').run(status, now, id);
-    } else if (status === 'completed' || status === 'failed') {
+    } else if (status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'interrupted' || status === 'rejected') {
       if (errorMessage) {
         return db.prepare('UPDATE deployment_queue SET status = ?, completed_at = ?, error_message = ? WHERE id = ?').run(status, now, errorMessage, id);
       } else {
@@ -283,23 +506,152 @@ export const dbHelpers = {
   updateQueueLogs: (id: number, logs: string) =>
     db.prepare('UPDATE deployment_queue SET logs = ? WHERE id = ?').run(logs, id),
   
-  appendQueueLogs: (id: number, newLogs: string) => {
-    const current = db.prepare('SELECT logs FROM deployment_queue WHERE id = ?').get(id) as any;
-    return db.prepare('UPDATE deployment_queue SET logs = ? WHERE id = ?').run((current?.logs || '') + newLogs, id);
-  },
-  
   getQueueItem: (id: number) =>
     db.prepare('SELECT * FROM deployment_queue WHERE id = ?').get(id),
   
   getAllQueueItems: () =>
     db.prepare('SELECT * FROM deployment_queue ORDER BY created_at DESC').all(),
   
+  getActiveQueueItems: (appName: string) =>
+    db.prepare(`SELECT * FROM deployment_queue WHERE app_name = ? AND status IN ('queued', 'building')`).all(appName),
+  
   getQueuedItems: () =>
     db.prepare('SELECT * FROM deployment_queue WHERE status = ? ORDER BY created_at ASC').all('queued'),
   
+  getAwaitingApprovalItems: (appName?: string) =>
+    appName === undefined
+      ? db.prepare('SELECT * FROM deployment_queue WHERE status = ? ORDER BY created_at ASC').all('awaiting_approval')
+      : db.prepare('SELECT * FROM deployment_queue WHERE app_name = ? AND status = ? ORDER BY created_at ASC').all(appName, 'awaiting_approval'),
+  
+  // Release an item held for approval into the queue
+  approveQueueItem: (id: number, username: string) =>
+    db.prepare(`UPDATE deployment_queue SET status = 'queued', reviewed_by = ?, reviewed_at = ? WHERE id = ? AND status = 'awaiting_approval'`)
+      .run(username, new Date().toISOString(), id),
+  
+  rejectQueueItem: (id: number, username: string, reason: string) => {
+    const now = new Date().toISOString();
+    return db.prepare(`UPDATE deployment_queue SET status = 'rejected', reviewed_by = ?, reviewed_at = ?, completed_at = ?, error_message = ? WHERE id = ? AND status = 'awaiting_approval'`)
+      .run(username, now, now, reason, id);
+  },
+  
+  getBuildingItems: () =>
+    db.prepare('SELECT * FROM deployment_queue WHERE status = ? ORDER BY created_at ASC').all('building'),
+  
+  // Put an item back in the queue after it was interrupted
+  requeueQueueItem: (id: number) =>
+    db.prepare(`UPDATE deployment_queue SET status = 'queued', started_at = NULL, recovery_attempts = recovery_attempts + 1 WHERE id = ?`).run(id),
+  
+  // Close the deployment record and steps an interrupted queue item left open
+  interruptQueueDeployments: (queueId: number, errorMessage: string) => {
+    const now = new Date().toISOString();
+    const deployments = db.prepare(`SELECT * FROM deployments WHERE queue_id = ? AND status = 'pending'`).all(queueId);
+    db.transaction(() => {
+      db.prepare(`UPDATE deployments SET status = 'interrupted' WHERE queue_id = ? AND status = 'pending'`).run(queueId);
+      db.prepare(`UPDATE deployment_steps SET status = 'failed', finished_at = ?, error_message = ? WHERE queue_id = ? AND status = 'running'`)
+        .run(now, errorMessage, queueId);
+    })();
+    return deployments;
+  },
+  
   deleteQueueItem: (id: number) =>
     db.prepare('DELETE FROM deployment_queue WHERE id = ?').run(id),
 
+  // Deploy Schedules
+  getDeploySchedules: (appId?: number) =>
+    appId === undefined
+      ? db.prepare(`
+          SELECT s.*, a.name as app_name
+          FROM deploy_schedules s
+          JOIN apps a ON s.app_id = a.id
+          ORDER BY a.name, s.id
+        `).all()
+      : db.prepare(`
+          SELECT s.*, a.name as app_name
+          FROM deploy_schedules s
+          JOIN apps a ON s.app_id = a.id
+          WHERE s.app_id = ?
+          ORDER BY s.id
+        `).all(appId),
+
+  getDeploySchedule: (id: number) =>
+    db.prepare(`
+      SELECT s.*, a.name as app_name
+      FROM deploy_schedules s
+      JOIN apps a ON s.app_id = a.id
+      WHERE s.id = ?
+    `).get(id),
+
+  // Enabled schedules whose next run is at or before `now` (ISO timestamp)
+  getDueDeploySchedules: (now: string) =>
+    db.prepare(`
+      SELECT s.*, a.name as app_name
+      FROM deploy_schedules s
+      JOIN apps a ON s.app_id = a.id
+      WHERE s.enabled = 1 AND s.next_run_at IS NOT NULL AND s.next_run_at <= ?
+      ORDER BY s.next_run_at
+    `).all(now),
+
+  createDeploySchedule: (appId: number, schedule: { cron: string | null; run_at: string | null; ref: string | null; missed_runs: string; next_run_at: string }) =>
+    db.prepare('INSERT INTO deploy_schedules (app_id, cron, run_at, ref, missed_runs, next_run_at) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(appId, schedule.cron, schedule.run_at, schedule.ref, schedule.missed_runs, schedule.next_run_at),
+
+  updateDeploySchedule: (id: number, updates: any) => {
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = [...Object.values(updates), id];
+    return db.prepare(`UPDATE deploy_schedules SET ${setClause} WHERE id = ?`).run(...values);
+  },
+
+  deleteDeploySchedule: (id: number) =>
+    db.prepare('DELETE FROM deploy_schedules WHERE id = ?').run(id),
+
+  // Deploy Freezes
+  getDeployFreezes: (appId?: number) =>
+    appId === undefined
+      ? db.prepare(`
+          SELECT f.*, a.name as app_name
+          FROM deploy_freezes f
+          LEFT JOIN apps a ON f.app_id = a.id
+          ORDER BY f.app_id IS NOT NULL, a.name, f.id
+        `).all()
+      : db.prepare(`
+          SELECT f.*, a.name as app_name
+          FROM deploy_freezes f
+          LEFT JOIN apps a ON f.app_id = a.id
+          WHERE f.app_id = ? OR f.app_id IS NULL
+          ORDER BY f.app_id IS NOT NULL, f.id
+        `).all(appId),
+
+  getDeployFreeze: (id: number) =>
+    db.prepare(`
+      SELECT f.*, a.name as app_name
+      FROM deploy_freezes f
+      LEFT JOIN apps a ON f.app_id = a.id
+      WHERE f.id = ?
+    `).get(id),
+
+  createDeployFreeze: (freeze: { app_id: number | null; type: string; starts_at: string | null; ends_at: string | null; weekdays: string | null; start_time: string | null; end_time: string | null; reason: string | null }) =>
+    db.prepare('INSERT INTO deploy_freezes (app_id, type, starts_at, ends_at, weekdays, start_time, end_time, reason) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+      .run(freeze.app_id, freeze.type, freeze.starts_at, freeze.ends_at, freeze.weekdays, freeze.start_time, freeze.end_time, freeze.reason),
+
+  deleteDeployFreeze: (id: number) =>
+    db.prepare('DELETE FROM deploy_freezes WHERE id = ?').run(id),
+
+  // Upload Sessions
+  createUploadSession: (id: string, appName: string, options: string, size: number) =>
+    db.prepare('INSERT INTO upload_sessions (id, app_name, options, size) VALUES (?, ?, ?, ?)').run(id, appName, options, size),
+  
+  getUploadSession: (id: string) =>
+    db.prepare('SELECT * FROM upload_sessions WHERE id = ?').get(id),
+  
+  getAllUploadSessions: () =>
+    db.prepare('SELECT * FROM upload_sessions ORDER BY created_at ASC').all(),
+  
+  updateUploadSessionReceived: (id: string, received: number) =>
+    db.prepare('UPDATE upload_sessions SET received = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(received, id),
+  
+  deleteUploadSession: (id: string) =>
+    db.prepare('DELETE FROM upload_sessions WHERE id = ?').run(id),
+
   // Settings
   getSetting: (key: string) => {
     const result = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
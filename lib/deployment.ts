@@ -1,24 +1,38 @@
-import { promises as fs } from 'fs';
+import { promises as fs, existsSync, renameSync } from 'fs';
 import path from 'path';
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
-import simpleGit from 'simple-git';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import simpleGit, { SimpleGit } from 'simple-git';
 import { dbHelpers } from './db';
+import { isSafeGitRef } from './utils';
 import systemctlManager from './systemctl';
 import caddyManager from './caddy';
 import envManager from './env';
+import releaseManager from './releases';
+import healthChecker from './health';
+import dependencyCache from './cache';
+import projectDetector from './detect';
+import deployKeyManager from './keys';
+import credentialManager from './credentials';
+import deploymentLogs from './logs';
+import archiveExtractor from './archive';
+import deployFreezes, { describeFreeze } from './freezes';
+import type { GitCredential } from './credentials';
+import type { DeploymentQueueItem } from './models';
+import type { Runtime } from './systemctl';
 import type { Server } from 'socket.io';
 
-const execAsync = promisify(exec);
-
 export interface DeploymentOptions {
   appName: string;
   repository?: string;
   branch?: string;
+  ref?: string; // Commit SHA, tag or any other ref to deploy instead of the branch tip
   buildCommand?: string;
   installCommand?: string;
-  startCommand: string;
-  runtime?: 'node' | 'python' | 'bun';
+  startCommand?: string; // Detected from the project when not given
+  runtime?: 'node' | 'python' | 'bun' | 'static';
+  rootDirectory?: string; // Subdirectory of the repository the app lives in
   envVars?: Record<string, string>;
   filePath?: string; // For file uploads
 }
@@ -30,24 +44,122 @@ export interface DeploymentResult {
   log?: string;
 }
 
-export interface QueuedDeployment {
-  id: number;
-  type: 'git' | 'file';
-  options: DeploymentOptions;
-  fileBuffer?: Buffer;
-  status: 'queued' | 'building' | 'completed' | 'failed';
-  createdAt: Date;
+export interface CommitSummary {
+  hash: string;
+  author: string;
+  date: string; // ISO timestamp of the author date
+  subject: string;
+}
+
+// Commits a git deployment shipped compared to the commit the app ran before
+export interface DeploymentChanges {
+  commits: CommitSummary[]; // Newest first
+  total: number; // May be more than the commits listed
+  truncated: boolean;
+  removed: number; // Commits of the previous deployment left out, when deploying an older commit or rewritten history
+  unavailable: string | null; // Why the commits could not be listed
+}
+
+// What startup reconciliation did with the queue items a restart left building
+export interface QueueRecovery {
+  recoveredAt: string;
+  mode: 'interrupt' | 'requeue';
+  interrupted: number[]; // Queue ids marked as interrupted
+  requeued: number[]; // Queue ids put back in the queue
+  removedArtifacts: string[]; // Temporary uploads and unfinished releases that were deleted
+}
+
+// Settings that are inferred from the project when the user did not set them, by option and app column
+const DETECTABLE_SETTINGS = {
+  runtime: 'runtime',
+  installCommand: 'install_command',
+  buildCommand: 'build_command',
+  startCommand: 'start_command'
+} as const;
+
+// Steps of the pipeline that run user commands, each with its own timeout
+type DeploymentStep = 'install' | 'build' | 'pre_deploy' | 'post_deploy';
+
+// Steps shown on a deployment's timeline, in the order a deployment goes through them
+type TimelineStep = 'clone' | 'extract' | 'detect' | 'env' | 'install' | 'build' | 'pre_deploy' | 'service' | 'health' | 'caddy' | 'post_deploy';
+
+// Runtime and commands a deployment runs with, once detection filled in what was not set
+type DeploymentSettings = {
+  runtime: Runtime;
+  installCommand?: string;
+  buildCommand?: string;
+  startCommand: string;
+};
+
+// State of a single deployment while it moves through the pipeline
+interface DeploymentContext {
+  appName: string;
+  deploymentId: number;
+  queueId?: number;
+  releasePath: string;
+  projectPath: string; // Where the app lives inside the release, its root directory for monorepo apps
+  log: string;
+  virtualenv?: string; // Put on PATH for install and build commands of python apps
+  secrets: string[]; // Redacted from everything written to the deployment log
+  exitCode?: number | null; // Of the last command run by the current step
+}
+
+// How git authenticates to an app's repository
+interface GitAccess {
+  sshCommand: string | null;
+  credential: GitCredential | null;
 }
 
+// Most commits listed in a deployment's changelog
+const CHANGELOG_COMMIT_LIMIT = 100;
+
+// Files describing a python project, whose metadata and entry points end up in the virtualenv it is installed into
+const PYTHON_PROJECT_FILES = ['pyproject.toml', 'setup.cfg', 'setup.py'];
+
+// Argument of pip naming the project directory itself, with or without extras
+const PYTHON_PROJECT_ARGUMENT = /^\.\/?(\[[^\]]*\])?$/;
+
+// Times an interrupted queue item is put back in the queue before it is given up on
+const MAX_QUEUE_RECOVERIES = 1;
+
+// Answers git's credential requests from the environment, so tokens never reach the command line
+const CREDENTIAL_HELPER = '!f() { test "$1" = get && echo "username=$LITESHIFT_GIT_USERNAME" && echo "password=$LITESHIFT_GIT_PASSWORD"; }; f';
+
 class DeploymentManager {
   private appsDirectory: string;
-  private isProcessing: boolean = false;
+  private activeApps: Set<string> = new Set();
+  private queueSignal: EventEmitter = new EventEmitter();
   private io: Server | null = null;
   private activeStreams: Map<number, boolean> = new Map();
   private activeProcesses: Map<number, any> = new Map();
+  private cancelledItems: Set<number> = new Set();
+  // Building items past their last cancellation point, switching traffic to the new release
+  private activatingItems: Set<number> = new Set();
+  private lastRecovery: QueueRecovery | null = null;
 
   constructor() {
     this.appsDirectory = dbHelpers.getSetting('apps_directory') || '/var/www/apps';
+    // Workers pick up new items as soon as they are queued or a deployment finishes
+    this.queueSignal.on('wake', () => this.processQueue());
+
+    // Queue logs used to be kept in the database
+    try {
+      const migratedLogs = deploymentLogs.migrateDatabaseLogs();
+      if (migratedLogs > 0) {
+        console.log(`Moved the logs of ${migratedLogs} queue item(s) into log files`);
+      }
+    } catch (error) {
+      console.error('Failed to migrate queue logs:', error);
+    }
+    this.cleanupLogs();
+
+    // Deployments that were building when the process stopped will never finish
+    try {
+      this.recoverQueue();
+    } catch (error) {
+      console.error('Failed to recover the deployment queue:', error);
+    }
+
     // Start processing queue on initialization
     this.processQueue();
   }
@@ -70,13 +182,14 @@ class DeploymentManager {
   // Execute command with real-time streaming
   private async executeCommandWithStreaming(
     command: string,
-    options: { cwd: string },
+    options: { cwd: string; timeout?: number }, // Timeout in seconds, none when 0 or not given
     queueId: number | undefined,
     commandName: string
   ): Promise<{ stdout: string; stderr: string }> {
     return new Promise((resolve, reject) => {
       let stdout = '';
       let stderr = '';
+      let timedOut = false;
 
       const child = spawn('sh', ['-c', command], {
         cwd: options.cwd,
@@ -88,6 +201,16 @@ class DeploymentManager {
         this.activeProcesses.set(queueId, child);
       }
 
+      // Kill the whole process group, a shell's children would otherwise keep running
+      const timer = options.timeout ? setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch (e) {
+          try { child.kill('SIGKILL'); } catch (err) {}
+        }
+      }, options.timeout * 1000) : null;
+
       // Stream stdout
       child.stdout.on('data', async (data) => {
         const output = data.toString();
@@ -107,22 +230,26 @@ class DeploymentManager {
       });
 
       child.on('close', (code) => {
+        if (timer) clearTimeout(timer);
         if (queueId) {
           this.activeProcesses.delete(queueId);
         }
         if (code === 0) {
           resolve({ stdout, stderr });
+        } else if (timedOut) {
+          reject(new Error(`${commandName} timed out after ${options.timeout}s`));
         } else {
           // Check if killed manually
           if (code === null) {
             reject(new Error(`${commandName} was cancelled.`));
           } else {
-            reject(new Error(`${commandName} failed with exit code ${code}\n${stderr}`));
+            reject(Object.assign(new Error(`${commandName} failed with exit code ${code}\n${stderr}`), { exitCode: code }));
           }
         }
       });
 
       child.on('error', (error) => {
+        if (timer) clearTimeout(timer);
         if (queueId) {
           this.activeProcesses.delete(queueId);
         }
@@ -131,26 +258,120 @@ class DeploymentManager {
     });
   }
 
-  // Cancel any existing queued or building deployments for an app
+  // Cancel any existing queued, building or held deployments for an app. One already
+  // switching traffic is left to finish, the worker pool runs the app's next one after it.
   cancelExistingDeployments(appName: string) {
     const queuedItems = dbHelpers.getAllQueueItems() as any[];
     for (const item of queuedItems) {
-      if (item.app_name === appName) {
-        if (item.status === 'queued') {
-          dbHelpers.updateQueueStatus(item.id, 'failed', 'Cancelled by newer deployment');
-        } else if (item.status === 'building') {
-          dbHelpers.updateQueueStatus(item.id, 'failed', 'Cancelled by newer deployment');
-          if (this.activeProcesses.has(item.id)) {
-            const child = this.activeProcesses.get(item.id);
-            try {
-              process.kill(-child.pid, 'SIGKILL'); // kill process group
-            } catch (e) {
-              try { child.kill('SIGKILL'); } catch (err) {}
-            }
-            this.activeProcesses.delete(item.id);
-          }
-        }
+      if (this.activatingItems.has(item.id)) continue;
+      if (item.app_name === appName && (item.status === 'queued' || item.status === 'building' || item.status === 'awaiting_approval')) {
+        this.cancelDeployment(item.id, 'Cancelled by newer deployment');
+      }
+    }
+  }
+
+  // Cancel a single queue item. A building item has its running command killed
+  // and stops at the next step of the pipeline, until it starts switching traffic
+  // to its release: from there on it can no longer be cancelled.
+  cancelDeployment(queueId: number, reason: string = 'Cancelled by user'): void {
+    const item = dbHelpers.getQueueItem(queueId) as any;
+    if (!item) {
+      throw new Error(`Deployment ${queueId} not found`);
+    }
+
+    if (item.status !== 'queued' && item.status !== 'building' && item.status !== 'awaiting_approval') {
+      throw new Error(`Deployment ${queueId} is already ${item.status}`);
+    }
+    if (this.activatingItems.has(queueId)) {
+      throw new Error(`Deployment ${queueId} is already switching to its new release and can no longer be cancelled`);
+    }
+
+    dbHelpers.updateQueueStatus(queueId, 'cancelled', reason);
+
+    if (item.status === 'building') {
+      this.cancelledItems.add(queueId);
+      this.killActiveProcess(queueId);
+    } else if (item.type === 'file') {
+      // Never picked up by a worker, nothing else removes its upload
+      fs.rm(this.getQueueUploadPath(queueId), { force: true }).catch(console.error);
+    }
+
+    deploymentLogs.append(queueId, `\n⛔ ${reason}\n`);
+    this.emitDeploymentComplete(queueId, 'cancelled');
+  }
+
+  // Kill the process group of the command a queue item is currently running
+  private killActiveProcess(queueId: number) {
+    if (this.activeProcesses.has(queueId)) {
+      const child = this.activeProcesses.get(queueId);
+      try {
+        process.kill(-child.pid, 'SIGKILL'); // kill process group
+      } catch (e) {
+        try { child.kill('SIGKILL'); } catch (err) {}
       }
+      this.activeProcesses.delete(queueId);
+    }
+  }
+
+  // Run one step of the pipeline and record its status, timing and exit code on the
+  // deployment's timeline
+  private async runStep<T>(context: DeploymentContext, name: TimelineStep, work: () => Promise<T>): Promise<T> {
+    const startedAt = new Date();
+    const stepId = dbHelpers.createDeploymentStep(
+      context.deploymentId, context.queueId ?? null, name, 'running', startedAt.toISOString()
+    ).lastInsertRowid as number;
+    context.exitCode = undefined;
+    this.emitStep(context, stepId);
+
+    try {
+      const result = await work();
+      this.finishStep(context, stepId, startedAt, 'success');
+      return result;
+    } catch (error) {
+      const cancelled = context.queueId !== undefined && this.cancelledItems.has(context.queueId);
+      const errorMessage = credentialManager.redact(error instanceof Error ? error.message : 'Unknown error', context.secrets);
+      this.finishStep(context, stepId, startedAt, cancelled ? 'cancelled' : 'failed', errorMessage);
+      throw error;
+    }
+  }
+
+  // Record a step the deployment has nothing to do for, e.g. a build without a build command
+  private skipStep(context: DeploymentContext, name: TimelineStep) {
+    const stepId = dbHelpers.createDeploymentStep(
+      context.deploymentId, context.queueId ?? null, name, 'skipped', null
+    ).lastInsertRowid as number;
+    this.emitStep(context, stepId);
+  }
+
+  private finishStep(context: DeploymentContext, stepId: number, startedAt: Date, status: string, errorMessage?: string) {
+    const finishedAt = new Date();
+    dbHelpers.updateDeploymentStep(stepId, {
+      status,
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      exit_code: context.exitCode ?? null,
+      error_message: errorMessage || null
+    });
+    this.emitStep(context, stepId);
+  }
+
+  // Tell dashboards a step started or finished, sent to every client as steps are few
+  private emitStep(context: DeploymentContext, stepId: number) {
+    if (this.io) {
+      this.io.emit('deploy:step', {
+        queueId: context.queueId ?? null,
+        deploymentId: context.deploymentId,
+        appName: context.appName,
+        step: dbHelpers.getDeploymentStep(stepId),
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Stop a building deployment between steps once it has been cancelled
+  private throwIfCancelled(context: DeploymentContext) {
+    if (context.queueId && this.cancelledItems.has(context.queueId)) {
+      throw new Error('Deployment was cancelled');
     }
   }
 
@@ -163,16 +384,19 @@ class DeploymentManager {
   private async logToQueue(queueId: number | undefined, message: string) {
     if (queueId) {
       try {
-        dbHelpers.appendQueueLogs(queueId, message);
+        deploymentLogs.append(queueId, message);
         
-        // Emit real-time update if streaming is active and Socket.IO is available
+        // Emit real-time update if streaming is active and Socket.IO is available.
+        // Only the new output is sent, clients catch up from `offset` with deploy:status
         if (this.io && this.isStreamingActive(queueId)) {
           const deployment = dbHelpers.getQueueItem(queueId) as any;
+          const size = deploymentLogs.getSize(queueId);
           this.io.emit('deploy:log-stream', {
             queueId,
             status: deployment?.status || 'building',
-            logs: deployment?.logs || '',
             newMessage: message,
+            offset: size - Buffer.byteLength(message),
+            size,
             timestamp: new Date().toISOString()
           });
         }
@@ -183,102 +407,324 @@ class DeploymentManager {
   }
 
   // Queue management methods
-  addToQueue(type: 'git' | 'file', options: DeploymentOptions, fileBuffer?: Buffer): { queueId: number; message: string } {
-    // Cancel existing deployments for this app
-    this.cancelExistingDeployments(options.appName);
+  // `file` is the archive of a file deployment, or the path of an archive already staged in the temp directory
+  async addToQueue(type: 'git' | 'file', options: DeploymentOptions, file?: Buffer | string): Promise<{ queueId: number; message: string }> {
+    // File uploads are written out before the item is queued, then moved to the queue's path in
+    // the same tick the item is created, so a worker never picks it up before its archive exists
+    let stagedPath: string | null = null;
+    if (type === 'file' && Buffer.isBuffer(file)) {
+      stagedPath = path.join(this.appsDirectory, '.temp', `staged_${crypto.randomUUID()}.zip`);
+      await fs.mkdir(path.dirname(stagedPath), { recursive: true });
+      await fs.writeFile(stagedPath, file);
+    } else if (type === 'file' && typeof file === 'string') {
+      stagedPath = file;
+    }
+
+    // A held deployment only supersedes another held one, whatever is already
+    // queued or building keeps going until it is approved
+    const approvalReason = this.getApprovalReason(options.appName);
+    if (approvalReason) {
+      for (const item of dbHelpers.getAwaitingApprovalItems(options.appName) as DeploymentQueueItem[]) {
+        this.cancelDeployment(item.id, 'Cancelled by newer deployment');
+      }
+    } else {
+      // Cancel existing deployments for this app
+      this.cancelExistingDeployments(options.appName);
+    }
 
     // Store options as JSON string
     const optionsJson = JSON.stringify(options);
     
-    const result = dbHelpers.createQueueItem(options.appName, type, optionsJson);
+    const result = dbHelpers.createQueueItem(options.appName, type, optionsJson, approvalReason || undefined);
     const queueId = result.lastInsertRowid as number;
-    
-    // For file uploads, store the buffer temporarily in filesystem
-    if (fileBuffer && type === 'file') {
-      const tempDir = path.join(this.appsDirectory, '.temp');
-      fs.mkdir(tempDir, { recursive: true }).catch(console.error);
-      const tempFilePath = path.join(tempDir, `queue_${queueId}.zip`);
-      fs.writeFile(tempFilePath, fileBuffer).catch(console.error);
+
+    if (stagedPath) {
+      try {
+        renameSync(stagedPath, this.getQueueUploadPath(queueId));
+      } catch (error) {
+        dbHelpers.updateQueueStatus(queueId, 'failed', 'Failed to store the uploaded archive');
+        throw error;
+      }
     }
 
-    // Start processing if not already processing
-    if (!this.isProcessing) {
-      setTimeout(() => this.processQueue(), 100);
+    if (approvalReason) {
+      deploymentLogs.append(queueId, `⏸️ Awaiting approval: ${approvalReason}\n`);
+      return {
+        queueId,
+        message: `Deployment of ${options.appName} is awaiting approval (${approvalReason}). Queue ID: ${queueId}`
+      };
     }
 
+    // Wake the workers up right away
+    this.queueSignal.emit('wake');
+
     return {
       queueId,
       message: `Deployment queued for ${options.appName}. Queue ID: ${queueId}`
     };
   }
 
+  // Why a new deployment of an app has to wait for approval, null if it can be queued.
+  // An active freeze window takes precedence over the app requiring approval.
+  private getApprovalReason(appName: string): string | null {
+    const freeze = deployFreezes.getActiveFreeze(appName);
+    if (freeze) {
+      return describeFreeze(freeze);
+    }
+
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (app && app.requires_approval) {
+      return `${appName} requires approval`;
+    }
+    return null;
+  }
+
+  // Release a held deployment into the queue. Like any newer deployment, it
+  // supersedes whatever of the app is still queued or building.
+  approveDeployment(queueId: number, username: string): void {
+    const item = dbHelpers.getQueueItem(queueId) as DeploymentQueueItem | undefined;
+    if (!item) {
+      throw new Error(`Deployment ${queueId} not found`);
+    }
+    if (item.status !== 'awaiting_approval') {
+      throw new Error(`Deployment ${queueId} is ${item.status}, not awaiting approval`);
+    }
+
+    for (const active of dbHelpers.getActiveQueueItems(item.app_name) as DeploymentQueueItem[]) {
+      if (this.activatingItems.has(active.id)) continue;
+      this.cancelDeployment(active.id, 'Cancelled by newer deployment');
+    }
+
+    dbHelpers.approveQueueItem(queueId, username);
+    deploymentLogs.append(queueId, `✅ Approved by ${username}\n`);
+    this.queueSignal.emit('wake');
+  }
+
+  // Turn a held deployment down, it never runs
+  async rejectDeployment(queueId: number, username: string, reason?: string): Promise<void> {
+    const item = dbHelpers.getQueueItem(queueId) as DeploymentQueueItem | undefined;
+    if (!item) {
+      throw new Error(`Deployment ${queueId} not found`);
+    }
+    if (item.status !== 'awaiting_approval') {
+      throw new Error(`Deployment ${queueId} is ${item.status}, not awaiting approval`);
+    }
+
+    const message = `Rejected by ${username}${reason ? `: ${reason}` : ''}`;
+    dbHelpers.rejectQueueItem(queueId, username, message);
+    deploymentLogs.append(queueId, `\n⛔ ${message}\n`);
+
+    if (item.type === 'file') {
+      await fs.rm(this.getQueueUploadPath(queueId), { force: true });
+    }
+  }
+
   getQueueStatus(): any[] {
     return dbHelpers.getAllQueueItems();
   }
 
-  getDeploymentStatus(queueId: number): any | null {
-    return dbHelpers.getQueueItem(queueId);
+  // Outcome of the reconciliation done at startup, null if it failed
+  getQueueRecovery(): QueueRecovery | null {
+    return this.lastRecovery;
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing) return;
-    
-    this.isProcessing = true;
+  // Reconcile the queue with what survived a restart. Items left building are marked
+  // as interrupted or queued again, depending on the `queue_recovery_mode` setting,
+  // then their unfinished releases and temporary uploads no longer needed are removed.
+  private recoverQueue() {
+    const mode = dbHelpers.getSetting('queue_recovery_mode') === 'requeue' ? 'requeue' : 'interrupt';
+    const recovery: QueueRecovery = {
+      recoveredAt: new Date().toISOString(),
+      mode,
+      interrupted: [],
+      requeued: [],
+      removedArtifacts: []
+    };
+    const unfinishedReleases: { appName: string; releasePath: string }[] = [];
+
+    for (const item of dbHelpers.getBuildingItems() as DeploymentQueueItem[]) {
+      const deployments = dbHelpers.interruptQueueDeployments(item.id, 'Interrupted by a restart of LiteShift') as any[];
+      for (const deployment of deployments) {
+        unfinishedReleases.push({ appName: item.app_name, releasePath: releaseManager.getReleasePath(item.app_name, deployment.id) });
+      }
+
+      // A file deployment can only run again while its upload is still around
+      const canRequeue = mode === 'requeue'
+        && (item.recovery_attempts || 0) < MAX_QUEUE_RECOVERIES
+        && (item.type !== 'file' || existsSync(this.getQueueUploadPath(item.id)));
+
+      if (canRequeue) {
+        dbHelpers.requeueQueueItem(item.id);
+        deploymentLogs.append(item.id, `\n⚠️ LiteShift restarted while this deployment was building, it has been queued again\n`);
+        recovery.requeued.push(item.id);
+      } else {
+        dbHelpers.updateQueueStatus(item.id, 'interrupted', 'Interrupted by a restart of LiteShift');
+        deploymentLogs.append(item.id, `\n⚠️ LiteShift restarted while this deployment was building, it has been marked as interrupted\n`);
+        recovery.interrupted.push(item.id);
+      }
+    }
+
+    this.lastRecovery = recovery;
+    this.removeOrphanedArtifacts(unfinishedReleases)
+      .then(removed => {
+        recovery.removedArtifacts.push(...removed);
+        if (recovery.interrupted.length || recovery.requeued.length || removed.length) {
+          console.log(`Queue recovery (${mode}): ${recovery.interrupted.length} interrupted, ${recovery.requeued.length} requeued, ${removed.length} artifact(s) removed`);
+        }
+      })
+      .catch(error => console.error('Failed to remove orphaned deployment artifacts:', error));
+  }
+
+  // Remove the given unfinished releases unless one went live, and uploads of queue
+  // items that are no longer waiting to be deployed
+  private async removeOrphanedArtifacts(unfinishedReleases: { appName: string; releasePath: string }[]): Promise<string[]> {
+    const removed: string[] = [];
+
+    for (const { appName, releasePath } of unfinishedReleases) {
+      if (await releaseManager.getActiveReleasePath(appName) === releasePath) continue;
+      if (!existsSync(releasePath)) continue;
+
+      await releaseManager.removeRelease(releasePath);
+      removed.push(releasePath);
+    }
+
+    const tempDir = path.join(this.appsDirectory, '.temp');
+    let entries: string[];
+    try {
+      entries = await fs.readdir(tempDir);
+    } catch {
+      return removed;
+    }
+
+    for (const entry of entries) {
+      // Staged archives only live until their item is queued, none can be in flight at startup
+      const match = entry.match(/^queue_(\d+)\.zip$/);
+      if (!match && !entry.startsWith('staged_')) continue;
+
+      const item = match ? dbHelpers.getQueueItem(parseInt(match[1], 10)) as any : null;
+      if (item && (item.status === 'queued' || item.status === 'building' || item.status === 'awaiting_approval')) continue;
 
+      const uploadPath = path.join(tempDir, entry);
+      await fs.rm(uploadPath, { force: true });
+      removed.push(uploadPath);
+    }
+
+    return removed;
+  }
+
+  private getQueueUploadPath(queueId: number): string {
+    return path.join(this.appsDirectory, '.temp', `queue_${queueId}.zip`);
+  }
+
+  // Status of a queue item with its steps and its log from byte `logOffset`, up to `logLimit` bytes
+  async getDeploymentStatus(queueId: number, logOffset: number = 0, logLimit?: number): Promise<any | null> {
+    const item = dbHelpers.getQueueItem(queueId);
+    if (!item) {
+      return null;
+    }
+
+    const log = await deploymentLogs.read(queueId, logOffset, logLimit);
+    return {
+      ...item,
+      logs: log.content,
+      log_offset: log.offset,
+      log_next_offset: log.nextOffset,
+      log_size: log.size,
+      steps: dbHelpers.getQueueItemSteps(queueId)
+    };
+  }
+
+  // Remove queue logs past the `log_retention_days` setting
+  private cleanupLogs() {
+    const retentionDays = parseInt(dbHelpers.getSetting('log_retention_days') || '30', 10) || 0;
+    deploymentLogs.cleanup(retentionDays).catch(error => console.error('Failed to clean up deployment logs:', error));
+  }
+
+  // Number of deployments allowed to build at the same time
+  private getMaxConcurrentDeployments(): number {
+    const value = parseInt(dbHelpers.getSetting('max_concurrent_deployments') || '2', 10);
+    return value > 0 ? value : 1;
+  }
+
+  // Start queued items until the worker pool is full. Different apps deploy in
+  // parallel, but an app never has more than one deployment building at a time.
+  private processQueue(): void {
     try {
+      const maxWorkers = this.getMaxConcurrentDeployments();
       const queuedItems = dbHelpers.getQueuedItems() as any[];
-      
+
       for (const item of queuedItems) {
-        try {
-          // Update status to building
-          dbHelpers.updateQueueStatus(item.id, 'building');
-          
-          const options = JSON.parse(item.options);
-          let result: DeploymentResult;
-          
-          if (item.type === 'git') {
-            result = await this.deployFromGitInternal(options, item.id);
-          } else {
-            // For file deployments, read the temporary file
-            const tempDir = path.join(this.appsDirectory, '.temp');
-            const tempFilePath = path.join(tempDir, `queue_${item.id}.zip`);
-            
-            try {
-              const fileBuffer = await fs.readFile(tempFilePath);
-              result = await this.deployFromFileInternal(options, fileBuffer, item.id);
-              
-              // Clean up temporary file
-              await fs.unlink(tempFilePath).catch(console.error);
-            } catch (error) {
-              throw new Error(`Failed to read temporary file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-          }
+        if (this.activeApps.size >= maxWorkers) break;
+        if (this.activeApps.has(item.app_name)) continue;
 
-          // Update status based on result
-          if (result.success) {
-            dbHelpers.updateQueueStatus(item.id, 'completed');
-          } else {
-            dbHelpers.updateQueueStatus(item.id, 'failed', result.message);
-          }
-          
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          dbHelpers.updateQueueStatus(item.id, 'failed', errorMessage);
-          console.error(`Queue item ${item.id} failed:`, error);
-        }
+        this.activeApps.add(item.app_name);
+
+        // Update status to building
+        dbHelpers.updateQueueStatus(item.id, 'building');
+
+        this.processQueueItem(item).finally(() => {
+          this.activeApps.delete(item.app_name);
+          this.queueSignal.emit('wake');
+          this.cleanupLogs();
+        });
       }
     } catch (error) {
       console.error('Error processing queue:', error);
     }
+  }
 
-    this.isProcessing = false;
-    
-    // Check again in 5 seconds for new items
-    setTimeout(() => this.processQueue(), 5000);
+  private async processQueueItem(item: any): Promise<void> {
+    try {
+      const options = JSON.parse(item.options);
+      let result: DeploymentResult;
+      
+      if (item.type === 'git') {
+        result = await this.deployFromGitInternal(options, item.id);
+      } else {
+        // File deployments are extracted straight from the temporary file, uploads can be large
+        const tempFilePath = this.getQueueUploadPath(item.id);
+
+        try {
+          await fs.access(tempFilePath);
+        } catch (error) {
+          throw new Error(`Failed to read temporary file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        result = await this.deployFromFileInternal(options, tempFilePath, item.id);
+
+        // Clean up temporary file
+        await fs.unlink(tempFilePath).catch(console.error);
+      }
+
+      // Update status based on result, a cancelled item already has its final status
+      if (this.cancelledItems.has(item.id)) {
+        return;
+      } else if (result.success) {
+        dbHelpers.updateQueueStatus(item.id, 'completed');
+      } else {
+        dbHelpers.updateQueueStatus(item.id, 'failed', result.message);
+      }
+      
+    } catch (error) {
+      if (this.cancelledItems.has(item.id)) return;
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      dbHelpers.updateQueueStatus(item.id, 'failed', errorMessage);
+      console.error(`Queue item ${item.id} failed:`, error);
+    } finally {
+      this.cancelledItems.delete(item.id);
+      this.activatingItems.delete(item.id);
+    }
   }
 
   // Public methods that add to queue
   async deployFromGit(options: DeploymentOptions): Promise<{ queueId: number; message: string }> {
+    if (options.ref && !isSafeGitRef(options.ref)) {
+      throw new Error(`Invalid ref '${options.ref}'`);
+    }
+    if (options.branch && !isSafeGitRef(options.branch)) {
+      throw new Error(`Invalid branch '${options.branch}'`);
+    }
     return this.addToQueue('git', options);
   }
 
@@ -286,497 +732,1042 @@ class DeploymentManager {
     return this.addToQueue('file', options, fileBuffer);
   }
 
+  // Queue a file deployment from an archive assembled by a chunked upload
+  async deployFromUpload(options: DeploymentOptions, stagedPath: string): Promise<{ queueId: number; message: string }> {
+    return this.addToQueue('file', options, stagedPath);
+  }
+
   // Internal methods that do the actual work (renamed from original methods)
   private async deployFromGitInternal(options: DeploymentOptions, queueId?: number): Promise<DeploymentResult> {
-    const { appName, repository, branch = 'main', buildCommand, installCommand = 'npm install', startCommand, runtime = 'node', envVars = {} } = options;
+    const { appName, repository, branch = 'main', ref, buildCommand, installCommand, startCommand, runtime, rootDirectory } = options;
     
     if (!repository) {
       throw new Error('Repository URL is required for Git deployment');
     }
 
-    const appPath = path.join(this.appsDirectory, appName);
-    let deploymentLog = '';
-    
     // Create deployment record
-    const deployment = dbHelpers.createDeployment((await this.getOrCreateApp(appName, repository, branch, startCommand, buildCommand, installCommand, runtime)).lastInsertRowid as number);
-    const deploymentId = deployment.lastInsertRowid as number;
+    const app = await this.getOrCreateApp(appName, repository, branch, startCommand, buildCommand, installCommand, runtime, rootDirectory);
+    const deploymentId = this.createDeploymentRecord(app.lastInsertRowid as number, 'git', options, queueId);
+    const context = this.createContext(appName, deploymentId, queueId);
+
+    return this.runDeployment(context, options, {
+      step: 'clone',
+      serviceUser: 'root',
+      successMessage: `${appName} deployed successfully from Git`,
+      prepare: async () => {
+        await this.appendLog(context, `Starting deployment for ${appName} from ${repository}\n`);
+
+        const previousCommitHash: string | null = (dbHelpers.getAppByName(appName) as any)?.latest_commit_hash || null;
+        const commit = await this.syncRepository(context, repository, branch, ref);
+
+        // Recorded right away, so a failed deployment still shows what it tried to ship
+        if (commit) {
+          const changes = await this.getCommitChanges(context, previousCommitHash, commit.hash);
+          dbHelpers.updateDeploymentDetails(context.deploymentId, {
+            commit_hash: commit.hash,
+            commit_message: commit.message,
+            previous_commit_hash: previousCommitHash,
+            changes: changes ? JSON.stringify(changes) : null
+          });
+        }
 
-    try {
-      const logMessage = `Starting deployment for ${appName} from ${repository}\n`;
-      deploymentLog += logMessage;
-      await this.logToQueue(queueId, logMessage);
-      
-      // Ensure apps directory exists
-      await fs.mkdir(this.appsDirectory, { recursive: true });
-      
-      // Stop existing PM2 process if running
-    //   try {
-    //     await pm2Manager.stop(appName);
-    //     deploymentLog += `Stopped existing ${appName} process\n`;
-    //   } catch (error) {
-    //     deploymentLog += `No existing process to stop\n`;
-    //   }
-
-      // Check if repository already exists
-      let appGit: any;
-      let repoExists = false;
-      
-      try {
-        await fs.access(path.join(appPath, '.git'));
-        repoExists = true;
-        appGit = simpleGit(appPath);
-      } catch (error) {
-        // Repository doesn't exist
+        // Copy the checked out sources into the new release, leaving git metadata behind
+        await this.appendLog(context, `Copying sources into release ${context.deploymentId}...\n`);
+        await fs.cp(releaseManager.getRepositoryPath(appName), context.releasePath, {
+          recursive: true,
+          verbatimSymlinks: true,
+          filter: (source) => path.basename(source) !== '.git'
+        });
+
+        return {
+          commitHash: commit?.hash,
+          commitMessage: commit?.message
+        };
       }
+    });
+  }
 
-      if (repoExists) {
-        // Repository exists, pull latest changes
-        const pullMessage = `Repository exists, pulling latest changes from ${branch}...\n`;
-        deploymentLog += pullMessage;
-        await this.logToQueue(queueId, pullMessage);
-        
-        try {
-          // Fetch all branches
-          await appGit.fetch(['origin']);
-          
-          // Checkout the target branch
-          await appGit.checkout(branch);
-          
-          // Pull latest changes
-          await appGit.pull('origin', branch);
-          
-          const pulledMessage = `Successfully pulled latest changes\n`;
-          deploymentLog += pulledMessage;
-          await this.logToQueue(queueId, pulledMessage);
-        } catch (error) {
-          const pullErrorMessage = `Failed to pull changes: ${error instanceof Error ? error.message : 'Unknown error'}\n`;
-          deploymentLog += pullErrorMessage;
-          await this.logToQueue(queueId, pullErrorMessage);
-          
-          // If pull fails, clean up and clone fresh
-          const cleanupMessage = `Cleaning up and cloning fresh repository...\n`;
-          deploymentLog += cleanupMessage;
-          await this.logToQueue(queueId, cleanupMessage);
-          
-          await fs.rm(appPath, { recursive: true, force: true });
-          const git = simpleGit();
-          await git.clone(repository, appPath, ['--branch', branch, '--single-branch']);
-          appGit = simpleGit(appPath);
-          
-          const clonedMessage = `Repository cloned successfully\n`;
-          deploymentLog += clonedMessage;
-          await this.logToQueue(queueId, clonedMessage);
+  private async deployFromFileInternal(options: DeploymentOptions, archivePath: string, queueId?: number): Promise<DeploymentResult> {
+    const { appName, startCommand, buildCommand, installCommand, runtime } = options;
+
+    // Create deployment record
+    const app = await this.getOrCreateApp(appName, null, 'main', startCommand, buildCommand, installCommand, runtime);
+    const deploymentId = this.createDeploymentRecord(app.lastInsertRowid as number, 'file', options, queueId);
+    const context = this.createContext(appName, deploymentId, queueId);
+
+    return this.runDeployment(context, options, {
+      step: 'extract',
+      serviceUser: 'www-data',
+      successMessage: `${appName} deployed successfully from file`,
+      prepare: async () => {
+        const releasePath = context.releasePath;
+        await this.appendLog(context, `Starting file deployment for ${appName}\n`);
+
+        // Zip and gzipped tar archives are extracted in-process, within the release directory
+        const extraction = await archiveExtractor.extract(archivePath, releasePath);
+        await this.appendLog(context, `Extracted ${extraction.files} entries (${(extraction.bytes / 1024 / 1024).toFixed(1)} MB) from ${extraction.format} archive\n`);
+        if (extraction.unwrapped) {
+          await this.appendLog(context, `Moved files from subdirectory ${extraction.unwrapped}\n`);
         }
-      } else {
-        // Repository doesn't exist, clone it
-        const cloneMessage = `Cloning repository...\n`;
-        deploymentLog += cloneMessage;
-        await this.logToQueue(queueId, cloneMessage);
-        
-        const git = simpleGit();
-        await git.clone(repository, appPath, ['--branch', branch, '--single-branch']);
-        appGit = simpleGit(appPath);
-        
-        const clonedMessage = `Repository cloned successfully\n`;
-        deploymentLog += clonedMessage;
-        await this.logToQueue(queueId, clonedMessage);
+        if (extraction.skipped > 0) {
+          await this.appendLog(context, `⚠️ Skipped ${extraction.skipped} hard link(s) and special file(s)\n`);
+        }
+
+        return {};
       }
+    });
+  }
 
-      // Change to app directory for subsequent commands
-      const gitInfo = await appGit.log(['-1']);
-      const commitMessage = `Latest commit: ${gitInfo.latest?.hash} - ${gitInfo.latest?.message}\n`;
-      deploymentLog += commitMessage;
-      await this.logToQueue(queueId, commitMessage);
+  // Create the deployment record along with the options needed to deploy it again.
+  // Env vars are left out since they already live in app_env_vars.
+  private createDeploymentRecord(appId: number, source: 'git' | 'file', options: DeploymentOptions, queueId?: number): number {
+    const { envVars, filePath, ...storedOptions } = options;
+    const deployment = dbHelpers.createDeployment(appId, {
+      source,
+      options: JSON.stringify(storedOptions),
+      queue_id: queueId
+    });
+    return deployment.lastInsertRowid as number;
+  }
 
-      // Set environment variables in database before build
-      const app = dbHelpers.getAppByName(appName) as any;
-      for (const [key, value] of Object.entries(envVars)) {
-        dbHelpers.setAppEnvVar(app.id, key, value);
-      }
+  private createContext(appName: string, deploymentId: number, queueId?: number): DeploymentContext {
+    return {
+      appName,
+      deploymentId,
+      queueId,
+      releasePath: releaseManager.getReleasePath(appName, deploymentId),
+      projectPath: releaseManager.getReleasePath(appName, deploymentId),
+      log: '',
+      secrets: []
+    };
+  }
 
-      // Update environment file BEFORE install and build commands
-      try {
-        await envManager.updateEnvFile(appName);
-        const envFileMessage = `Environment file updated\n`;
-        deploymentLog += envFileMessage;
-        await this.logToQueue(queueId, envFileMessage);
-      } catch (error) {
-        const envErrorMessage = `Warning: Failed to update environment file: ${error instanceof Error ? error.message : 'Unknown error'}\n`;
-        deploymentLog += envErrorMessage;
-        await this.logToQueue(queueId, envErrorMessage);
-      }
+  // Log saved on the deployment record, queued deployments already have theirs in the queue log file
+  private getStoredLog(context: DeploymentContext): string | undefined {
+    return context.queueId ? undefined : context.log;
+  }
 
-      // Get the env file path for sourcing
-      const envFilePath = envManager.getAppEnvFilePath(appName);
+  // Append a message to the deployment log and stream it to the queue
+  private async appendLog(context: DeploymentContext, message: string) {
+    message = credentialManager.redact(message, context.secrets);
+    context.log += message;
+    await this.logToQueue(context.queueId, message);
+  }
 
-      // Install dependencies
-      if (installCommand) {
-        const installStartMessage = `Running install command: ${installCommand}\n`;
-        deploymentLog += installStartMessage;
-        await this.logToQueue(queueId, installStartMessage);
-        
-        // Prepend command with sourcing the env file
-        const installCommandWithEnv = `set -a && [ -f "${envFilePath}" ] && . "${envFilePath}" && set +a && ${installCommand}`;
-        
-        try {
-          // Use streaming execution if we have streaming active, otherwise fallback to regular exec
-          if (queueId && this.isStreamingActive(queueId)) {
-            const { stdout: installOutput, stderr: installError } = await this.executeCommandWithStreaming(
-              installCommandWithEnv,
-              { cwd: appPath },
-              queueId,
-              'install command'
-            );
-            deploymentLog += installOutput;
-            if (installError) deploymentLog += installError;
-          } else {
-            const { stdout: installOutput, stderr: installError } = await execAsync(installCommandWithEnv, { cwd: appPath });
-            deploymentLog += installOutput;
-            await this.logToQueue(queueId, installOutput);
-            if (installError) {
-              deploymentLog += installError;
-              await this.logToQueue(queueId, installError);
-            }
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Install command failed';
-          deploymentLog += errorMessage;
-          await this.logToQueue(queueId, errorMessage);
-          throw error;
-        }
-        
-        const installCompleteMessage = `Install command completed\n`;
-        deploymentLog += installCompleteMessage;
-        await this.logToQueue(queueId, installCompleteMessage);
-      }
+  // Bring the local repository clone up to date and check out the tip of the branch,
+  // or `ref` when one is given. Only the clone is ever thrown away on failure, never the live release.
+  private async syncRepository(context: DeploymentContext, repository: string, branch: string, ref?: string) {
+    const repoPath = releaseManager.getRepositoryPath(context.appName);
+    let repoGit: SimpleGit | null = null;
 
-      // Build application
-      if (buildCommand) {
-        const buildStartMessage = `Running build command: ${buildCommand}\n`;
-        deploymentLog += buildStartMessage;
-        await this.logToQueue(queueId, buildStartMessage);
-        
-        // Prepend command with sourcing the env file
-        const buildCommandWithEnv = `set -a && [ -f "${envFilePath}" ] && . "${envFilePath}" && set +a && ${buildCommand}`;
-        
-        try {
-          // Use streaming execution if we have streaming active, otherwise fallback to regular exec
-          if (queueId && this.isStreamingActive(queueId)) {
-            const { stdout: buildOutput, stderr: buildError } = await this.executeCommandWithStreaming(
-              buildCommandWithEnv,
-              { cwd: appPath },
-              queueId,
-              'build command'
-            );
-            deploymentLog += buildOutput;
-            if (buildError) deploymentLog += buildError;
-          } else {
-            const { stdout: buildOutput, stderr: buildError } = await execAsync(buildCommandWithEnv, { cwd: appPath });
-            deploymentLog += buildOutput;
-            await this.logToQueue(queueId, buildOutput);
-            if (buildError) {
-              deploymentLog += buildError;
-              await this.logToQueue(queueId, buildError);
-            }
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Build command failed';
-          deploymentLog += errorMessage;
-          await this.logToQueue(queueId, errorMessage);
-          throw error;
-        }
-        
-        const buildCompleteMessage = `Build command completed\n`;
-        deploymentLog += buildCompleteMessage;
-        await this.logToQueue(queueId, buildCompleteMessage);
-      }
+    const app = dbHelpers.getAppByName(context.appName) as any;
+    const access: GitAccess = {
+      sshCommand: await deployKeyManager.getSshCommand(context.appName),
+      credential: app ? credentialManager.getCredentialForRepository(app.id, repository) : null
+    };
+    if (access.sshCommand) {
+      await this.appendLog(context, `Using deploy key of ${context.appName}\n`);
+    }
+    if (access.credential) {
+      context.secrets.push(access.credential.token);
+      await this.appendLog(context, `Using stored credential of ${access.credential.username} for ${access.credential.host}\n`);
+    }
 
-      // Get all env vars for this app
-      const allEnvVars = dbHelpers.getAppEnvVars(app.id) as any[];
-      const envObject: Record<string, string> = {};
-      allEnvVars.forEach(env => {
-        envObject[env.key] = env.value;
-      });
+    try {
+      await fs.access(path.join(repoPath, '.git'));
+      repoGit = this.createGit(access, repoPath);
+    } catch (error) {
+      // Repository doesn't exist
+    }
 
-      // Start application with systemctl
-      const systemctlStartMessage = `Starting application with systemctl using ${runtime} runtime...\n`;
-      deploymentLog += systemctlStartMessage;
-      await this.logToQueue(queueId, systemctlStartMessage);
-      
-      // Create systemd service
-      await systemctlManager.createService(appName, {
-        scriptPath: startCommand,
-        cwd: appPath,
-        env: envObject,
-        runtime: runtime,
-        description: `LiteShift app: ${appName}`,
-        user: 'root'
-      });
-      
-      // Start and enable the service
-      await systemctlManager.start(appName);
-      await systemctlManager.enable(appName);
+    const cloneDepth: number | null = app?.clone_depth || null;
+    const depthArgs = cloneDepth ? ['--depth', String(cloneDepth)] : [];
+    if (cloneDepth) {
+      await this.appendLog(context, `Using a shallow clone of depth ${cloneDepth}\n`);
+    }
 
-      const systemctlStartedMessage = `Application started successfully with systemctl\n`;
-      deploymentLog += systemctlStartedMessage;
-      await this.logToQueue(queueId, systemctlStartedMessage);
+    if (repoGit) {
+      await this.appendLog(context, `Repository exists, fetching latest changes from ${branch}...\n`);
 
-      // Update app status in database
-      dbHelpers.updateApp(app.id, { 
-        status: 'running',
-        deploy_path: appPath,
-        latest_commit_hash: gitInfo.latest?.hash,
-        latest_commit_message: gitInfo.latest?.message
-      });
+      try {
+        await repoGit.remote(['set-url', 'origin', repository]);
 
-      const serviceCreatedMessage = `Systemctl service created and enabled\n`;
-      deploymentLog += serviceCreatedMessage;
-      await this.logToQueue(queueId, serviceCreatedMessage);
+        // A clone left shallow by an earlier depth gets its full history back once the depth is removed
+        const isShallow = (await repoGit.revparse(['--is-shallow-repository'])).trim() === 'true';
+        const historyArgs = cloneDepth ? depthArgs : isShallow ? ['--unshallow'] : [];
+        if (!cloneDepth && isShallow) {
+          await this.appendLog(context, `Fetching full history of the shallow clone...\n`);
+        }
 
-      // Update Caddy configuration if domains are configured
-      const domains = dbHelpers.getAppDomains(app.id);
-      if (domains && (domains as any[]).length > 0) {
-        const caddyUpdateMessage = `Updating Caddy configuration...\n`;
-        deploymentLog += caddyUpdateMessage;
-        await this.logToQueue(queueId, caddyUpdateMessage);
-        
-        await caddyManager.writeCaddyfile();
-        await caddyManager.reloadCaddy();
-        
-        const caddyUpdatedMessage = `Caddy configuration updated\n`;
-        deploymentLog += caddyUpdatedMessage;
-        await this.logToQueue(queueId, caddyUpdatedMessage);
+        await repoGit.fetch(['--tags', '--force', ...historyArgs, 'origin', `+refs/heads/${branch}:refs/remotes/origin/${branch}`]);
+        await repoGit.checkout(['--force', '-B', branch, `origin/${branch}`]);
+
+        await this.appendLog(context, `Successfully pulled latest changes\n`);
+      } catch (error) {
+        await this.appendLog(context, `Failed to pull changes: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+        await this.appendLog(context, `Cleaning up and cloning fresh repository...\n`);
+
+        await fs.rm(repoPath, { recursive: true, force: true });
+        repoGit = null;
       }
+    } else {
+      await this.appendLog(context, `Cloning repository...\n`);
+    }
 
-      // Update deployment status
-      dbHelpers.updateDeployment(deploymentId, 'success', deploymentLog);
+    if (!repoGit) {
+      await fs.mkdir(path.dirname(repoPath), { recursive: true });
+      await this.createGit(access).clone(repository, repoPath, ['--branch', branch, '--single-branch', ...depthArgs]);
+      repoGit = this.createGit(access, repoPath);
 
-      const completionMessage = `✅ Deployment completed successfully!\n`;
-      await this.logToQueue(queueId, completionMessage);
+      await this.appendLog(context, `Repository cloned successfully\n`);
+    }
 
-      // Emit completion status for real-time streaming
-      if (queueId) {
-        this.emitDeploymentComplete(queueId, 'completed');
-      }
+    if (ref) {
+      await this.appendLog(context, `Checking out ${ref}...\n`);
+      const sha = await this.resolveRef(repoGit, ref, depthArgs);
+      await repoGit.checkout(['--force', '--detach', sha]);
+      await this.appendLog(context, `Resolved ${ref} to ${sha}\n`);
+    }
 
-      return {
-        success: true,
-        deploymentId,
-        message: `${appName} deployed successfully from Git`,
-        log: deploymentLog
-      };
+    if (app?.git_submodules) {
+      await this.updateSubmodules(context, repoGit);
+    }
+
+    if (app?.git_lfs) {
+      await this.pullLfsObjects(context, repoGit, !!app.git_submodules);
+    }
+
+    const gitInfo = await repoGit.log(['-1']);
+    await this.appendLog(context, `Latest commit: ${gitInfo.latest?.hash} - ${gitInfo.latest?.message}\n`);
+
+    return gitInfo.latest;
+  }
+
+  // List the commits between the commit an app ran and the one being deployed, from the
+  // local clone. Returns null on a first deployment, since there is nothing to compare to.
+  private async getCommitChanges(context: DeploymentContext, previousHash: string | null, hash: string): Promise<DeploymentChanges | null> {
+    if (!previousHash) {
+      return null;
+    }
+
+    const repoGit = simpleGit(releaseManager.getRepositoryPath(context.appName));
+    const changes: DeploymentChanges = { commits: [], total: 0, truncated: false, removed: 0, unavailable: null };
+
+    try {
+      await repoGit.raw(['cat-file', '-e', `${previousHash}^{commit}`]);
+    } catch {
+      changes.unavailable = `Previous commit ${previousHash} is not in the local clone, it may be outside a shallow clone or gone from the history`;
+      await this.appendLog(context, `Changes since the previous deployment are unavailable: ${changes.unavailable}\n`);
+      return changes;
+    }
 
+    try {
+      changes.total = parseInt((await repoGit.raw(['rev-list', '--count', `${previousHash}..${hash}`])).trim(), 10) || 0;
+      changes.removed = parseInt((await repoGit.raw(['rev-list', '--count', `${hash}..${previousHash}`])).trim(), 10) || 0;
+
+      // Fields are split on the unit separator, which cannot appear in them
+      const log = await repoGit.raw(['log', `--max-count=${CHANGELOG_COMMIT_LIMIT}`, '--format=%H%x1f%an%x1f%aI%x1f%s', `${previousHash}..${hash}`]);
+      changes.commits = log.split('\n').filter(Boolean).map(line => {
+        const [commitHash, author, date, subject] = line.split('\x1f');
+        return { hash: commitHash, author, date, subject };
+      });
+      changes.truncated = changes.total > changes.commits.length;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const errorLog = `\n❌ Error: ${errorMessage}\n`;
-      deploymentLog += errorLog;
-      await this.logToQueue(queueId, errorLog);
-      
-      // Update deployment status
-      dbHelpers.updateDeployment(deploymentId, 'failed', deploymentLog);
+      changes.unavailable = `Failed to list commits: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      await this.appendLog(context, `Changes since the previous deployment are unavailable: ${changes.unavailable}\n`);
+      return changes;
+    }
 
-      // Emit failure status for real-time streaming
-      if (queueId) {
-        this.emitDeploymentComplete(queueId, 'failed');
+    await this.appendLog(context, `Changes since ${previousHash.slice(0, 7)}: ${changes.total} new commit(s)${changes.removed ? `, ${changes.removed} commit(s) no longer deployed` : ''}\n`);
+    for (const commit of changes.commits) {
+      await this.appendLog(context, `  ${commit.hash.slice(0, 7)} ${commit.subject} (${commit.author})\n`);
+    }
+    if (changes.truncated) {
+      await this.appendLog(context, `  ... and ${changes.total - changes.commits.length} more\n`);
+    }
+
+    return changes;
+  }
+
+  // Git client for an app's repository. With a deploy key, git connects through our
+  // own ssh command, and with a stored credential it is answered by our credential
+  // helper. Either way git gets a minimal environment, since simple-git refuses to
+  // run with some inherited variables once these are customised.
+  private createGit(access: GitAccess, baseDir?: string): SimpleGit {
+    if (!access.sshCommand && !access.credential) {
+      return baseDir ? simpleGit(baseDir) : simpleGit();
+    }
+
+    const env: Record<string, string> = {
+      PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+      HOME: process.env.HOME || '/root',
+      GIT_TERMINAL_PROMPT: '0'
+    };
+    if (access.sshCommand) {
+      env.GIT_SSH_COMMAND = access.sshCommand;
+    }
+    if (access.credential) {
+      env.LITESHIFT_GIT_USERNAME = access.credential.username;
+      env.LITESHIFT_GIT_PASSWORD = access.credential.token;
+    }
+
+    return simpleGit({
+      baseDir,
+      // The empty helper clears any helper configured globally before ours, which only
+      // answers for the credential's host so submodules hosted elsewhere never get the token
+      config: access.credential
+        ? ['credential.helper=', `credential.https://${access.credential.host}.helper=${CREDENTIAL_HELPER}`]
+        : [],
+      unsafe: { allowUnsafeSshCommand: true, allowUnsafeCredentialHelper: true }
+    }).env(env);
+  }
+
+  // Resolve a commit SHA, tag or ref to a full commit SHA, fetching it from origin
+  // when the local clone does not have it yet
+  private async resolveRef(repoGit: SimpleGit, ref: string, depthArgs: string[] = []): Promise<string> {
+    try {
+      return (await repoGit.revparse(['--verify', `${ref}^{commit}`])).trim();
+    } catch (error) {
+      // Not available locally
+    }
+
+    try {
+      await repoGit.fetch([...depthArgs, 'origin', ref]);
+      return (await repoGit.revparse(['--verify', 'FETCH_HEAD^{commit}'])).trim();
+    } catch (error) {
+      throw new Error(`Could not resolve ref '${ref}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Check out the submodules recorded in the current commit, recursively
+  private async updateSubmodules(context: DeploymentContext, repoGit: SimpleGit) {
+    await this.appendLog(context, `Updating submodules...\n`);
+
+    try {
+      // Pick up submodule URLs changed in .gitmodules since the last deployment
+      await repoGit.subModule(['sync', '--recursive']);
+      await repoGit.subModule(['update', '--init', '--recursive', '--force']);
+    } catch (error) {
+      throw new Error(`Failed to update submodules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const status = await repoGit.subModule(['status', '--recursive']);
+    const submodules = status.split('\n').filter(line => line.trim());
+    await this.appendLog(context, submodules.length > 0
+      ? `Checked out ${submodules.length} submodule(s):\n${submodules.map(line => `  ${line.trim()}`).join('\n')}\n`
+      : `No submodules found\n`);
+  }
+
+  // Replace Git LFS pointer files in the checkout with their actual content
+  private async pullLfsObjects(context: DeploymentContext, repoGit: SimpleGit, includeSubmodules: boolean) {
+    await this.appendLog(context, `Fetching Git LFS objects...\n`);
+
+    try {
+      await repoGit.raw(['lfs', 'version']);
+    } catch (error) {
+      throw new Error('Git LFS is enabled for this app but git-lfs is not installed on the server');
+    }
+
+    try {
+      await repoGit.raw(['lfs', 'install', '--local']);
+      await repoGit.raw(['lfs', 'pull']);
+      if (includeSubmodules) {
+        await repoGit.subModule(['foreach', '--recursive', 'git lfs install --local && git lfs pull']);
       }
+    } catch (error) {
+      throw new Error(`Failed to fetch Git LFS objects: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      return {
-        success: false,
-        deploymentId,
-        message: `Deployment failed: ${errorMessage}`,
-        log: deploymentLog
-      };
+    const files = (await repoGit.raw(['lfs', 'ls-files', '--name-only'])).split('\n').filter(line => line.trim());
+    await this.appendLog(context, `Fetched ${files.length} LFS file(s)\n`);
+  }
+
+  // Seconds a step may run before it is killed, 0 for no limit. The app's own
+  // `<step>_timeout` wins over the `deploy_step_timeout` setting.
+  private getStepTimeout(appName: string, step: DeploymentStep): number {
+    const app = dbHelpers.getAppByName(appName) as any;
+    const appTimeout = app?.[`${step}_timeout`];
+    if (appTimeout !== null && appTimeout !== undefined) {
+      return appTimeout;
     }
+    return parseInt(dbHelpers.getSetting('deploy_step_timeout') || '1800', 10) || 0;
   }
 
-  private async deployFromFileInternal(options: DeploymentOptions, fileBuffer: Buffer, queueId?: number): Promise<DeploymentResult> {
-    const { appName, startCommand, buildCommand, installCommand = 'npm install', runtime = 'node', envVars = {} } = options;
-    
-    const appPath = path.join(this.appsDirectory, appName);
-    let deploymentLog = '';
-    
-    // Create deployment record
-    const app = await this.getOrCreateApp(appName, null, 'main', startCommand, buildCommand, installCommand, runtime);
-    const deployment = dbHelpers.createDeployment(app.lastInsertRowid as number);
-    const deploymentId = deployment.lastInsertRowid as number;
+  // Run a shell command inside a release with the app's env file sourced
+  private async runCommand(context: DeploymentContext, command: string, cwd: string, commandName: string, step: DeploymentStep) {
+    const envFilePath = envManager.getAppEnvFilePath(context.appName);
+
+    // Activate the virtualenv of python apps after the env file, so it cannot be overridden
+    const virtualenv = context.virtualenv
+      ? `export VIRTUAL_ENV="${context.virtualenv}" PATH="${path.join(context.virtualenv, 'bin')}:$PATH" && `
+      : '';
+
+    // Prepend command with sourcing the env file
+    const commandWithEnv = `set -a && [ -f "${envFilePath}" ] && . "${envFilePath}" && set +a && ${virtualenv}${command}`;
 
     try {
-      deploymentLog += `Starting file deployment for ${appName}\n`;
-      
-      // Ensure apps directory exists
-      await fs.mkdir(this.appsDirectory, { recursive: true });
-      
-      // Stop existing systemctl service if running
+      // Queued deployments run through a tracked child process so they can be cancelled,
+      // their output is streamed to the queue as it comes
+      const { stdout, stderr } = await this.executeCommandWithStreaming(
+        commandWithEnv,
+        { cwd, timeout: this.getStepTimeout(context.appName, step) },
+        context.queueId,
+        commandName
+      );
+      context.exitCode = 0;
+      if (context.queueId) {
+        context.log += stdout;
+        if (stderr) context.log += stderr;
+      } else {
+        await this.appendLog(context, stdout);
+        if (stderr) await this.appendLog(context, stderr);
+      }
+    } catch (error) {
+      context.exitCode = (error as any)?.exitCode ?? null;
+      await this.appendLog(context, error instanceof Error ? error.message : `${commandName} failed`);
+      throw error;
+    }
+  }
+
+  // (Re)create the systemd service of an app and restart it on whatever `current` points at
+  private async startService(appName: string, startCommand: string, runtime: Runtime, serviceUser: string) {
+    const app = dbHelpers.getAppByName(appName) as any;
+
+    // Caddy serves static apps from `current` directly, remove services left from another runtime
+    if (runtime === 'static') {
+      await systemctlManager.deleteService(appName).catch(() => {});
+      if (app.active_slot === 'green') {
+        await systemctlManager.deleteService(this.getSlotServiceName(appName, 'green')).catch(() => {});
+        dbHelpers.updateApp(app.id, { active_slot: 'blue' });
+      }
+      return;
+    }
+
+    // Get all env vars for this app
+    const allEnvVars = dbHelpers.getAppEnvVars(app.id) as any[];
+    const envObject: Record<string, string> = {};
+    allEnvVars.forEach(env => {
+      envObject[env.key] = env.value;
+    });
+
+    // Create systemd service
+    await systemctlManager.createService(appName, {
+      scriptPath: startCommand,
+      cwd: path.join(releaseManager.getCurrentPath(appName), app.root_directory || ''),
+      env: envObject,
+      runtime: runtime,
+      description: `LiteShift app: ${appName}`,
+      user: serviceUser,
+      virtualenv: runtime === 'python' ? await this.getServiceVirtualenv(appName, releaseManager.getCurrentPath(appName)) : undefined
+    });
+
+    // Restart picks up the new release whether or not the service was already running
+    await systemctlManager.restart(appName);
+    await systemctlManager.enable(appName);
+
+    // Coming back from a blue/green deployment on the green slot, move traffic
+    // back to the base service and retire the green one
+    if (app.active_slot === 'green') {
+      dbHelpers.updateApp(app.id, { active_slot: 'blue' });
+      await caddyManager.writeCaddyfile();
+      await caddyManager.reloadCaddy();
+
+      const greenService = this.getSlotServiceName(appName, 'green');
+      await systemctlManager.stop(greenService).catch(() => {});
+      await systemctlManager.disable(greenService).catch(() => {});
+    }
+  }
+
+  // Unit name of a blue/green slot. Blue is the app's regular service on its own port.
+  private getSlotServiceName(appName: string, slot: 'blue' | 'green'): string {
+    return slot === 'green' ? `${appName}-green` : appName;
+  }
+
+  // Blue/green: start the new release on the idle slot next to the live one, move
+  // Caddy over once it is healthy, then drain and stop the old slot
+  private async deployBlueGreen(context: DeploymentContext, startCommand: string, runtime: Runtime, serviceUser: string) {
+    const { appName } = context;
+    let app = dbHelpers.getAppByName(appName) as any;
+
+    const liveSlot: 'blue' | 'green' = app.active_slot === 'green' ? 'green' : 'blue';
+    const nextSlot: 'blue' | 'green' = liveSlot === 'blue' ? 'green' : 'blue';
+
+    if (!app.green_port) {
+      dbHelpers.updateApp(app.id, { green_port: dbHelpers.generateUniquePort() });
+      app = dbHelpers.getAppByName(appName);
+    }
+
+    const nextPort: number = nextSlot === 'green' ? app.green_port : app.port;
+    const nextService = this.getSlotServiceName(appName, nextSlot);
+    const liveService = this.getSlotServiceName(appName, liveSlot);
+
+    // Get all env vars for this app
+    const allEnvVars = dbHelpers.getAppEnvVars(app.id) as any[];
+    const envObject: Record<string, string> = {};
+    allEnvVars.forEach(env => {
+      envObject[env.key] = env.value;
+    });
+
+    // Each slot runs straight from its release so both versions can run side by side
+    await this.runStep(context, 'service', async () => {
+      await this.appendLog(context, `Starting ${nextSlot} slot on port ${nextPort} using ${runtime} runtime...\n`);
+      await systemctlManager.createService(appName, {
+        scriptPath: startCommand,
+        cwd: context.projectPath,
+        env: envObject,
+        runtime: runtime,
+        description: `LiteShift app: ${appName} (${nextSlot})`,
+        user: serviceUser,
+        serviceName: nextService,
+        port: nextPort,
+        virtualenv: runtime === 'python' ? await this.getServiceVirtualenv(appName, context.releasePath) : undefined
+      });
+      await systemctlManager.restart(nextService);
+    });
+
+    // Blue/green never switches traffic without a check, fall back to TCP when none is configured
+    const healthCheck = healthChecker.getConfig(app, nextPort);
+    if (healthCheck.type === 'none') {
+      healthCheck.type = 'tcp';
+    }
+
+    await this.runStep(context, 'health', async () => {
+      await this.appendLog(context, `Running ${healthCheck.type.toUpperCase()} health check on port ${nextPort}...\n`);
+      const result = await healthChecker.check(healthCheck, (message) => this.appendLog(context, message));
+      if (!result.healthy) {
+        await systemctlManager.stop(nextService).catch(() => {});
+        throw new Error(`Health check failed: ${result.message}`);
+      }
+      await this.appendLog(context, `Health check passed after ${result.attempts} attempt(s)\n`);
+      await systemctlManager.enable(nextService);
+    });
+
+    // Move traffic over to the new slot
+    await this.runStep(context, 'caddy', async () => {
+      await this.appendLog(context, `Switching Caddy upstream to port ${nextPort}...\n`);
+      dbHelpers.updateApp(app.id, { active_slot: nextSlot });
       try {
-        await systemctlManager.stop(appName);
-        deploymentLog += `Stopped existing ${appName} service\n`;
+        await caddyManager.writeCaddyfile();
+        await caddyManager.reloadCaddy();
       } catch (error) {
-        deploymentLog += `No existing service to stop\n`;
+        // Keep serving from the old slot
+        dbHelpers.updateApp(app.id, { active_slot: liveSlot });
+        await caddyManager.writeCaddyfile().catch(console.error);
+        await systemctlManager.stop(nextService).catch(() => {});
+        await systemctlManager.disable(nextService).catch(() => {});
+        throw error;
       }
 
-      // Clean up existing directory
       try {
-        await fs.rm(appPath, { recursive: true, force: true });
-        deploymentLog += `Cleaned up existing directory\n`;
+        await releaseManager.activateRelease(appName, context.releasePath);
       } catch (error) {
-        // Directory might not exist
+        await this.appendLog(context, `Warning: ${error instanceof Error ? error.message : 'Failed to switch current release'}\n`);
       }
+      await this.appendLog(context, `Traffic switched to the ${nextSlot} slot\n`);
+    });
 
-      // Create app directory
-      await fs.mkdir(appPath, { recursive: true });
+    // Give in-flight requests on the old slot time to finish before stopping it
+    const drainSeconds = parseInt(dbHelpers.getSetting('blue_green_drain_seconds') || '10', 10) || 0;
+    if (drainSeconds > 0) {
+      await this.appendLog(context, `Draining ${liveSlot} slot for ${drainSeconds}s...\n`);
+      await new Promise(resolve => setTimeout(resolve, drainSeconds * 1000));
+    }
 
-      // Extract uploaded file (assuming it's a zip file)
-      const tempFilePath = path.join(appPath, 'upload.zip');
-      await fs.writeFile(tempFilePath, fileBuffer);
-      
-      deploymentLog += `File uploaded successfully\n`;
+    try {
+      await systemctlManager.stop(liveService);
+      await systemctlManager.disable(liveService);
+      await this.appendLog(context, `Stopped ${liveSlot} slot\n`);
+    } catch (error) {
+      await this.appendLog(context, `Warning: Failed to stop ${liveSlot} slot: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+    }
+  }
 
-      // Extract zip file
-      await execAsync(`unzip -q "${tempFilePath}" -d "${appPath}"`);
-      await fs.unlink(tempFilePath);
-      deploymentLog += `Files extracted successfully\n`;
+  // Run the install command, or restore its output from the dependency cache
+  // when the lockfiles and install command match an earlier deployment
+  private async installDependencies(context: DeploymentContext, installCommand: string) {
+    const { appName } = context;
 
-      // Find package.json or main script in extracted files
-      const files = await fs.readdir(appPath);
-      const possibleMainDir = files.find(file => file !== 'upload.zip');
-      
-      if (possibleMainDir && files.length === 1) {
-        // If there's only one directory, move its contents up
-        const mainDirPath = path.join(appPath, possibleMainDir);
-        const stat = await fs.stat(mainDirPath);
-        
-        if (stat.isDirectory()) {
-          const innerFiles = await fs.readdir(mainDirPath);
-          for (const file of innerFiles) {
-            await fs.rename(
-              path.join(mainDirPath, file),
-              path.join(appPath, file)
-            );
-          }
-          await fs.rmdir(mainDirPath);
-          deploymentLog += `Moved files from subdirectory\n`;
+    let cacheKey: string | null = null;
+    try {
+      const computed = await dependencyCache.computeKey(context.projectPath, installCommand, context.releasePath);
+      if (computed) {
+        cacheKey = computed.key;
+        if (await dependencyCache.restore(appName, cacheKey, context.projectPath, context.releasePath)) {
+          await this.appendLog(context, `Dependency cache hit (${computed.files.join(', ')} unchanged, key ${cacheKey.slice(0, 12)}), skipping install command\n`);
+          return;
         }
+        await this.appendLog(context, `Dependency cache miss (key ${cacheKey.slice(0, 12)})\n`);
+      } else {
+        await this.appendLog(context, `No lockfile found, dependency cache not used\n`);
       }
+    } catch (error) {
+      cacheKey = null;
+      await this.appendLog(context, `Warning: Failed to restore dependency cache: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+    }
 
-      // Set environment variables in database before build
-      const appRecord = dbHelpers.getAppByName(appName) as any;
-      for (const [key, value] of Object.entries(envVars)) {
-        dbHelpers.setAppEnvVar(appRecord.id, key, value);
-      }
+    await this.appendLog(context, `Running install command: ${installCommand}\n`);
+    await this.runCommand(context, installCommand, context.projectPath, 'install command', 'install');
+    await this.appendLog(context, `Install command completed\n`);
 
-      // Update environment file BEFORE install and build commands
+    if (cacheKey) {
       try {
-        await envManager.updateEnvFile(appName);
-        deploymentLog += `Environment file updated\n`;
+        const directories = await dependencyCache.save(appName, cacheKey, context.projectPath, context.releasePath);
+        await this.appendLog(context, directories.length > 0
+          ? `Saved dependency cache (${directories.join(', ')})\n`
+          : `Install command left no dependency directory to cache\n`);
       } catch (error) {
-        deploymentLog += `Warning: Failed to update environment file: ${error instanceof Error ? error.message : 'Unknown error'}\n`;
+        await this.appendLog(context, `Warning: ${error instanceof Error ? error.message : 'Failed to save dependency cache'}\n`);
+      }
+    }
+  }
+
+  // Give a python release its virtualenv and install its dependencies into it. A
+  // virtualenv cannot be moved once created, so each one is built where it stays, in
+  // the app's `venvs` directory under the hash of the lockfiles and install command,
+  // and never changed afterwards. Releases with the same dependencies share one, and
+  // the release still serving traffic, or one rolled back to, keeps the packages it
+  // was deployed with. When the project itself is installed, its metadata files are
+  // part of the key. Without a lockfile, or when the project is installed in editable
+  // mode and so points back at its release, the virtualenv lives inside the release.
+  private async prepareVirtualenv(context: DeploymentContext, installCommand?: string) {
+    const linkPath = releaseManager.getReleaseVirtualenvPath(context.releasePath);
+    const projectInstall = installCommand ? await this.getPythonProjectInstall(context.projectPath, installCommand) : null;
+    const computed = installCommand && projectInstall !== 'editable'
+      ? await dependencyCache.computeKey(context.projectPath, installCommand, context.releasePath, projectInstall ? PYTHON_PROJECT_FILES : []).catch(() => null)
+      : null;
+
+    if (!computed) {
+      if (projectInstall === 'editable') {
+        await this.appendLog(context, `The project is installed in editable mode, creating a virtualenv for this release only\n`);
+      } else if (installCommand) {
+        await this.appendLog(context, `No lockfile found, creating a virtualenv for this release only\n`);
+      }
+      context.virtualenv = linkPath;
+      await this.createVirtualenv(context, linkPath);
+    } else {
+      const virtualenv = releaseManager.getVirtualenvPath(context.appName, computed.key);
+      const markerPath = path.join(virtualenv, '.liteshift-deps-key');
+      context.virtualenv = virtualenv;
+
+      if (await fs.readFile(markerPath, 'utf8').catch(() => null) === computed.key) {
+        await this.appendLog(context, `Dependency cache hit (${computed.files.join(', ')} unchanged, key ${computed.key.slice(0, 12)}), reusing virtualenv ${virtualenv}\n`);
+        installCommand = undefined;
+      } else {
+        await this.appendLog(context, `Dependency cache miss (key ${computed.key.slice(0, 12)})\n`);
+        // Left without its marker by a failed install, start over
+        await fs.rm(virtualenv, { recursive: true, force: true });
+        await this.createVirtualenv(context, virtualenv);
       }
 
-      // Get the env file path for sourcing
-      const envFilePath = envManager.getAppEnvFilePath(appName);
+      await fs.rm(linkPath, { recursive: true, force: true });
+      await fs.symlink(path.relative(context.releasePath, virtualenv), linkPath, 'dir');
+    }
 
-      // Install dependencies
-      if (installCommand) {
-        deploymentLog += `Running install command: ${installCommand}\n`;
-        
-        // Prepend command with sourcing the env file
-        const installCommandWithEnv = `set -a && [ -f "${envFilePath}" ] && . "${envFilePath}" && set +a && ${installCommand}`;
-        
+    if (installCommand) {
+      await this.appendLog(context, `Running install command: ${installCommand}\n`);
+      await this.runCommand(context, installCommand, context.projectPath, 'install command', 'install');
+      await this.appendLog(context, `Install command completed\n`);
+
+      if (computed) {
+        await fs.writeFile(path.join(context.virtualenv, '.liteshift-deps-key'), computed.key, 'utf8');
+      }
+    }
+  }
+
+  // Whether a python install command installs the project itself besides its dependencies,
+  // like `pip install .`, and if so whether in editable mode, like `pip install -e .` or
+  // `poetry install`. A `requirements.txt` listing `.` or `-e .` counts too.
+  private async getPythonProjectInstall(projectPath: string, installCommand: string): Promise<'regular' | 'editable' | null> {
+    if (/\bpoetry\s+install\b/.test(installCommand) && !/--no-root\b/.test(installCommand)) {
+      return 'editable';
+    }
+
+    const requirements = await fs.readFile(path.join(projectPath, 'requirements.txt'), 'utf8').catch(() => '');
+    const args = [installCommand, ...requirements.split('\n').map(line => line.replace(/#.*/, ''))]
+      .flatMap(line => line.trim().split(/\s+/))
+      .map(arg => arg.replace(/^['"]|['"]$/g, ''));
+
+    let projectInstall: 'regular' | 'editable' | null = null;
+    args.forEach((arg, index) => {
+      if (PYTHON_PROJECT_ARGUMENT.test(arg)) {
+        projectInstall = projectInstall === 'editable' || ['-e', '--editable'].includes(args[index - 1]) ? 'editable' : 'regular';
+      }
+    });
+    return projectInstall;
+  }
+
+  private async createVirtualenv(context: DeploymentContext, virtualenv: string) {
+    await this.appendLog(context, `Creating virtualenv ${virtualenv}...\n`);
+    await fs.mkdir(path.dirname(virtualenv), { recursive: true });
+    await this.runCommand(context, `python3 -m venv "${virtualenv}"`, context.projectPath, 'virtualenv creation', 'install');
+  }
+
+  // Virtualenv a python service runs from: the one of its release, or the shared one
+  // for releases deployed before each release got its own
+  private async getServiceVirtualenv(appName: string, releasePath: string): Promise<string> {
+    const virtualenv = releaseManager.getReleaseVirtualenvPath(releasePath);
+    try {
+      await fs.access(path.join(virtualenv, 'bin'));
+      return virtualenv;
+    } catch {
+      return releaseManager.getLegacyVirtualenvPath(appName);
+    }
+  }
+
+  // Directory of the app inside the release, taking its root directory into account
+  private async resolveProjectPath(context: DeploymentContext): Promise<string> {
+    const app = dbHelpers.getAppByName(context.appName) as any;
+    if (!app.root_directory) {
+      return context.releasePath;
+    }
+
+    const projectPath = path.join(context.releasePath, app.root_directory);
+    try {
+      const stats = await fs.stat(projectPath);
+      if (!stats.isDirectory()) throw new Error('Not a directory');
+    } catch {
+      throw new Error(`Root directory '${app.root_directory}' was not found in the repository`);
+    }
+
+    await this.appendLog(context, `Using root directory ${app.root_directory}\n`);
+    return projectPath;
+  }
+
+  // Work out the runtime and commands of a deployment. Values passed with the
+  // deployment win, then values the user set on the app, then what the project
+  // files suggest. Inferred values are saved to the app and remembered as such,
+  // so they are inferred again on the next deployment.
+  private async resolveSettings(context: DeploymentContext, options: DeploymentOptions): Promise<DeploymentSettings> {
+    const app = dbHelpers.getAppByName(context.appName) as any;
+    const detectedFields: string[] = app.detected_fields ? JSON.parse(app.detected_fields) : [];
+    const detected = await projectDetector.detect(context.projectPath);
+
+    const settings: Record<string, string | undefined> = {};
+    const appUpdates: Record<string, string | null> = {};
+    // Flags of settings resolved elsewhere (e.g. output_directory) are kept as they are
+    const settingColumns: string[] = Object.values(DETECTABLE_SETTINGS);
+    const nextDetectedFields = detectedFields.filter(column => !settingColumns.includes(column));
+
+    for (const [option, column] of Object.entries(DETECTABLE_SETTINGS) as [keyof typeof DETECTABLE_SETTINGS, string][]) {
+      const explicitValue = options[option];
+      const storedValue = app[column];
+
+      if (explicitValue) {
+        settings[option] = explicitValue;
+      } else if (storedValue && !detectedFields.includes(column)) {
+        settings[option] = storedValue;
+      } else if (detected[option]) {
+        settings[option] = detected[option];
+        nextDetectedFields.push(column);
+        if (storedValue !== detected[option]) {
+          appUpdates[column] = detected[option]!;
+        }
+        await this.appendLog(context, `Detected ${column.replace('_', ' ')}: ${detected[option]}\n`);
+      } else if (storedValue && detectedFields.includes(column)) {
+        // Inferred by an earlier deployment but no longer found in the project
+        appUpdates[column] = column === 'start_command' ? '' : null;
+      }
+    }
+
+    if (detected.sources.length > 0 && nextDetectedFields.length > 0) {
+      await this.appendLog(context, `Inferred from ${detected.sources.join(', ')}\n`);
+    }
+
+    if (!settings.startCommand && settings.runtime !== 'static') {
+      throw new Error('No start command was given and none could be detected. Add a start script or a Procfile, or set startCommand');
+    }
+
+    appUpdates.detected_fields = nextDetectedFields.length > 0 ? JSON.stringify(nextDetectedFields) : null;
+    dbHelpers.updateApp(app.id, appUpdates);
+
+    const resolved: DeploymentSettings = {
+      runtime: (settings.runtime as Runtime) || 'node',
+      installCommand: settings.installCommand,
+      buildCommand: settings.buildCommand,
+      startCommand: settings.startCommand || ''
+    };
+
+    // Rollbacks restart a release with the settings it was built with
+    const deployment = dbHelpers.getDeployment(context.deploymentId) as any;
+    const recordedOptions = deployment?.options ? JSON.parse(deployment.options) : {};
+    dbHelpers.updateDeploymentDetails(context.deploymentId, {
+      options: JSON.stringify({ ...recordedOptions, ...resolved })
+    });
+
+    return resolved;
+  }
+
+  // Find the directory a static app publishes, saving it to the app when it was not configured
+  private async resolveOutputDirectory(context: DeploymentContext): Promise<string> {
+    const app = dbHelpers.getAppByName(context.appName) as any;
+    const detectedFields: string[] = app.detected_fields ? JSON.parse(app.detected_fields) : [];
+    const isConfigured = app.output_directory && !detectedFields.includes('output_directory');
+
+    const outputDirectory = isConfigured
+      ? app.output_directory
+      : await projectDetector.findOutputDirectory(context.projectPath);
+
+    if (!outputDirectory) {
+      throw new Error('No output directory with an index.html was found after the build, set outputDirectory on the app');
+    }
+
+    try {
+      const stats = await fs.stat(path.join(context.projectPath, outputDirectory));
+      if (!stats.isDirectory()) throw new Error('Not a directory');
+    } catch {
+      throw new Error(`Output directory '${outputDirectory}' was not found in the release`);
+    }
+
+    if (!isConfigured) {
+      await this.appendLog(context, `Detected output directory: ${outputDirectory}\n`);
+      const nextDetectedFields = [...new Set([...detectedFields, 'output_directory'])];
+      dbHelpers.updateApp(app.id, {
+        output_directory: outputDirectory,
+        detected_fields: JSON.stringify(nextDetectedFields)
+      });
+    }
+
+    await this.appendLog(context, `Publishing ${outputDirectory} as a static site\n`);
+    return outputDirectory;
+  }
+
+  // Run the post-deploy command of an app. Its failure fails the deployment only when the
+  // app asks for it, otherwise the release that is already live stays in place.
+  private async runPostDeployCommand(context: DeploymentContext, command: string, failOnError: boolean) {
+    await this.appendLog(context, `Running post-deploy command: ${command}\n`);
+
+    try {
+      await this.runCommand(context, command, context.projectPath, 'post-deploy command', 'post_deploy');
+    } catch (error) {
+      if (failOnError) throw error;
+
+      await this.appendLog(context, `Warning: ${error instanceof Error ? error.message : 'Post-deploy command failed'}, keeping the new release\n`);
+      return;
+    }
+
+    await this.appendLog(context, `Post-deploy command completed\n`);
+  }
+
+  // Switch `current` back to an earlier release and restart the app with the
+  // start command that release was deployed with. Returns whether it worked.
+  private async restoreRelease(context: DeploymentContext, releasePath: string): Promise<boolean> {
+    const { appName } = context;
+    const app = dbHelpers.getAppByName(appName) as any;
+    const deployment = dbHelpers.getDeploymentByReleasePath(releasePath) as any;
+    const options: Partial<DeploymentOptions> = deployment?.options ? JSON.parse(deployment.options) : {};
+
+    try {
+      await releaseManager.activateRelease(appName, releasePath);
+      await this.startService(
+        appName,
+        options.startCommand || app.start_command,
+        options.runtime || app.runtime || 'node',
+        deployment?.source === 'file' ? 'www-data' : 'root'
+      );
+      await this.appendLog(context, `Restored previous release ${path.basename(releasePath)}\n`);
+      return true;
+    } catch (error) {
+      await this.appendLog(context, `Failed to restore previous release: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+      return false;
+    }
+  }
+
+  // Build a new release from prepared sources, then switch traffic over to it.
+  // `current` only moves once install and build have succeeded, so a failed
+  // build never touches the running app.
+  private async runDeployment(
+    context: DeploymentContext,
+    options: DeploymentOptions,
+    source: {
+      step: TimelineStep; // Step the sources are prepared in
+      serviceUser: string;
+      successMessage: string;
+      prepare: () => Promise<{ commitHash?: string; commitMessage?: string }>;
+    }
+  ): Promise<DeploymentResult> {
+    const { appName, deploymentId, queueId } = context;
+    const { envVars = {} } = options;
+
+    let previousReleasePath: string | null = null;
+    let activated = false;
+
+    try {
+      // Ensure apps directory exists
+      await fs.mkdir(this.appsDirectory, { recursive: true });
+
+      await releaseManager.createRelease(appName, deploymentId);
+      const { commitHash, commitMessage } = await this.runStep(context, source.step, source.prepare);
+      this.throwIfCancelled(context);
+
+      const { runtime, installCommand, buildCommand, startCommand } = await this.runStep(context, 'detect', async () => {
+        // Monorepo apps are built and run from their root directory
+        context.projectPath = await this.resolveProjectPath(context);
+        return this.resolveSettings(context, options);
+      });
+
+      const app = dbHelpers.getAppByName(appName) as any;
+      await this.runStep(context, 'env', async () => {
+        // Set environment variables in database before build
+        for (const [key, value] of Object.entries(envVars)) {
+          dbHelpers.setAppEnvVar(app.id, key, value);
+        }
+
+        // Update environment file BEFORE install and build commands
         try {
-          // Use streaming execution if we have streaming active, otherwise fallback to regular exec
-          if (queueId && this.isStreamingActive(queueId)) {
-            const { stdout: installOutput, stderr: installError } = await this.executeCommandWithStreaming(
-              installCommandWithEnv,
-              { cwd: appPath },
-              queueId,
-              'install command'
-            );
-            deploymentLog += installOutput;
-            if (installError) deploymentLog += installError;
-          } else {
-            const { stdout: installOutput, stderr: installError } = await execAsync(installCommandWithEnv, { cwd: appPath });
-            deploymentLog += installOutput;
-            if (installError) deploymentLog += installError;
-          }
+          await envManager.updateEnvFile(appName);
+          await this.appendLog(context, `Environment file updated\n`);
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Install command failed';
-          deploymentLog += errorMessage;
-          throw error;
+          await this.appendLog(context, `Warning: Failed to update environment file: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
         }
+      });
+
+      // Install dependencies, python apps into a virtualenv of their own
+      if (installCommand || runtime === 'python') {
+        this.throwIfCancelled(context);
+        await this.runStep(context, 'install', async () => {
+          if (runtime === 'python') {
+            await this.prepareVirtualenv(context, installCommand);
+          } else if (installCommand) {
+            await this.installDependencies(context, installCommand);
+          }
+        });
+      } else {
+        this.skipStep(context, 'install');
       }
 
       // Build application
-      if (buildCommand) {
-        deploymentLog += `Running build command: ${buildCommand}\n`;
-        
-        // Prepend command with sourcing the env file
-        const buildCommandWithEnv = `set -a && [ -f "${envFilePath}" ] && . "${envFilePath}" && set +a && ${buildCommand}`;
-        
-        try {
-          // Use streaming execution if we have streaming active, otherwise fallback to regular exec
-          if (queueId && this.isStreamingActive(queueId)) {
-            const { stdout: buildOutput, stderr: buildError } = await this.executeCommandWithStreaming(
-              buildCommandWithEnv,
-              { cwd: appPath },
-              queueId,
-              'build command'
-            );
-            deploymentLog += buildOutput;
-            if (buildError) deploymentLog += buildError;
-          } else {
-            const { stdout: buildOutput, stderr: buildError } = await execAsync(buildCommandWithEnv, { cwd: appPath });
-            deploymentLog += buildOutput;
-            if (buildError) deploymentLog += buildError;
+      if (buildCommand || runtime === 'static') {
+        this.throwIfCancelled(context);
+        await this.runStep(context, 'build', async () => {
+          if (buildCommand) {
+            await this.appendLog(context, `Running build command: ${buildCommand}\n`);
+            await this.runCommand(context, buildCommand, context.projectPath, 'build command', 'build');
+            await this.appendLog(context, `Build command completed\n`);
           }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Build command failed';
-          deploymentLog += errorMessage;
-          throw error;
-        }
+
+          // Static apps publish a directory of the release, make sure the build produced it
+          if (runtime === 'static') {
+            await this.resolveOutputDirectory(context);
+          }
+        });
+      } else {
+        this.skipStep(context, 'build');
       }
 
-      // Get all env vars for this app
-      const allEnvVars = dbHelpers.getAppEnvVars(appRecord.id) as any[];
-      const envObject: Record<string, string> = {};
-      allEnvVars.forEach(env => {
-        envObject[env.key] = env.value;
-      });
+      // Last step before the new release takes traffic, e.g. database migrations
+      if (app.pre_deploy_command) {
+        this.throwIfCancelled(context);
+        await this.runStep(context, 'pre_deploy', async () => {
+          await this.appendLog(context, `Running pre-deploy command: ${app.pre_deploy_command}\n`);
+          await this.runCommand(context, app.pre_deploy_command, context.projectPath, 'pre-deploy command', 'pre_deploy');
+          await this.appendLog(context, `Pre-deploy command completed\n`);
+        });
+      } else {
+        this.skipStep(context, 'pre_deploy');
+      }
 
-      // Start application with systemctl
-      deploymentLog += `Starting application with systemctl using ${runtime} runtime...\n`;
-      
-      // Create systemd service
-      await systemctlManager.createService(appName, {
-        scriptPath: startCommand,
-        cwd: appPath,
-        env: envObject,
-        runtime: runtime,
-        description: `LiteShift app: ${appName}`,
-        user: 'www-data'
-      });
-      
-      // Start and enable the service
-      await systemctlManager.start(appName);
-      await systemctlManager.enable(appName);
+      // Past this point the deployment runs to the end, so a cancelled item never
+      // leaves a release live that its deployment record calls cancelled
+      this.throwIfCancelled(context);
+      if (queueId) {
+        this.activatingItems.add(queueId);
+      }
+
+      if (app.deployment_strategy === 'blue-green' && runtime !== 'static') {
+        await this.deployBlueGreen(context, startCommand, runtime, source.serviceUser);
+        // Traffic is already on the new release, a later failure must not take it down
+        activated = true;
+      } else {
+        await this.runStep(context, 'service', async () => {
+          // Switch the current symlink over to the new release
+          previousReleasePath = await releaseManager.getActiveReleasePath(appName);
+          await releaseManager.activateRelease(appName, context.releasePath);
+          activated = true;
+          await this.appendLog(context, `Switched current release to ${deploymentId}\n`);
+
+          // Start application with systemctl
+          await this.appendLog(context, `Starting application with systemctl using ${runtime} runtime...\n`);
+          await this.startService(appName, startCommand, runtime, source.serviceUser);
+          await this.appendLog(context, `Application started successfully with systemctl\n`);
+        });
+
+        // Only report success once the new release actually serves requests
+        const healthCheck = healthChecker.getConfig(app);
+        if (healthCheck.type !== 'none' && healthCheck.port && runtime !== 'static') {
+          await this.runStep(context, 'health', async () => {
+            await this.appendLog(context, `Running ${healthCheck.type.toUpperCase()} health check on port ${healthCheck.port}...\n`);
+            const result = await healthChecker.check(healthCheck, (message) => this.appendLog(context, message));
+            if (!result.healthy) {
+              throw new Error(`Health check failed: ${result.message}`);
+            }
+            await this.appendLog(context, `Health check passed after ${result.attempts} attempt(s)\n`);
+          });
+        } else {
+          this.skipStep(context, 'health');
+        }
+
+        // Update Caddy configuration if domains are configured (blue/green already switched it)
+        const domains = dbHelpers.getAppDomains(app.id);
+        if (domains && (domains as any[]).length > 0) {
+          await this.runStep(context, 'caddy', async () => {
+            await this.appendLog(context, `Updating Caddy configuration...\n`);
+
+            await caddyManager.writeCaddyfile();
+            await caddyManager.reloadCaddy();
 
-      // Update app status
-      dbHelpers.updateApp(appRecord.id, { 
+            await this.appendLog(context, `Caddy configuration updated\n`);
+          });
+        } else {
+          this.skipStep(context, 'caddy');
+        }
+      }
+
+      // The new release serves traffic now, e.g. warm caches
+      if (app.post_deploy_command) {
+        await this.runStep(context, 'post_deploy', () =>
+          this.runPostDeployCommand(context, app.post_deploy_command, !!app.post_deploy_fail_on_error));
+      } else {
+        this.skipStep(context, 'post_deploy');
+      }
+
+      // Update app status in database
+      const appUpdates: any = {
         status: 'running',
-        deploy_path: appPath
-      });
+        deploy_path: releaseManager.getAppRoot(appName)
+      };
+      if (commitHash) {
+        appUpdates.latest_commit_hash = commitHash;
+        appUpdates.latest_commit_message = commitMessage;
+      }
+      dbHelpers.updateApp(app.id, appUpdates);
 
-      deploymentLog += `Systemctl service created and enabled\n`;
+      await this.appendLog(context, `Systemctl service created and enabled\n`);
 
-      // Update Caddy if needed
-      const domains = dbHelpers.getAppDomains(appRecord.id);
-      if (domains && (domains as any[]).length > 0) {
-        await caddyManager.writeCaddyfile();
-        await caddyManager.reloadCaddy();
-        deploymentLog += `Caddy configuration updated\n`;
+      // Remove files from the old in-place layout and releases we no longer keep
+      const legacyEntries = await releaseManager.cleanupLegacyLayout(appName);
+      if (legacyEntries.length > 0) {
+        await this.appendLog(context, `Removed ${legacyEntries.length} file(s) left over from the previous in-place layout\n`);
       }
 
-      // Update deployment status
-      dbHelpers.updateDeployment(deploymentId, 'success', deploymentLog);
+      const prunedReleases = await releaseManager.pruneReleases(appName);
+      if (prunedReleases.length > 0) {
+        await this.appendLog(context, `Removed old release(s): ${prunedReleases.join(', ')}\n`);
+      }
+
+      const prunedVirtualenvs = await releaseManager.pruneVirtualenvs(appName);
+      if (prunedVirtualenvs.length > 0) {
+        await this.appendLog(context, `Removed ${prunedVirtualenvs.length} virtualenv(s) no release uses anymore\n`);
+      }
+
+      // Update deployment status and remember where its release lives for rollbacks
+      dbHelpers.updateDeploymentDetails(deploymentId, {
+        release_path: context.releasePath,
+        commit_hash: commitHash || null,
+        commit_message: commitMessage || null
+      });
+      dbHelpers.updateDeployment(deploymentId, 'success', this.getStoredLog(context));
+
+      await this.logToQueue(queueId, `✅ Deployment completed successfully!\n`);
 
       // Emit completion status for real-time streaming
       if (queueId) {
@@ -786,31 +1777,43 @@ class DeploymentManager {
       return {
         success: true,
         deploymentId,
-        message: `${appName} deployed successfully from file`,
-        log: deploymentLog
+        message: source.successMessage,
+        log: context.log
       };
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      deploymentLog += `\nError: ${errorMessage}\n`;
-      
-      dbHelpers.updateDeployment(deploymentId, 'failed', deploymentLog);
+      const errorMessage = credentialManager.redact(error instanceof Error ? error.message : 'Unknown error', context.secrets);
+      await this.appendLog(context, `\n❌ Error: ${errorMessage}\n`);
+
+      // The new release went live but did not start or stay healthy, put the previous one back
+      let releaseIsLive = activated;
+      if (activated && previousReleasePath) {
+        releaseIsLive = !(await this.restoreRelease(context, previousReleasePath));
+      }
+
+      if (!releaseIsLive) {
+        await releaseManager.removeRelease(context.releasePath).catch(console.error);
+      }
+
+      // Update deployment status
+      const cancelled = queueId !== undefined && this.cancelledItems.has(queueId);
+      dbHelpers.updateDeployment(deploymentId, cancelled ? 'cancelled' : 'failed', this.getStoredLog(context));
 
       // Emit failure status for real-time streaming
       if (queueId) {
-        this.emitDeploymentComplete(queueId, 'failed');
+        this.emitDeploymentComplete(queueId, cancelled ? 'cancelled' : 'failed');
       }
 
       return {
         success: false,
         deploymentId,
-        message: `Deployment failed: ${errorMessage}`,
-        log: deploymentLog
+        message: cancelled ? 'Deployment was cancelled' : `Deployment failed: ${errorMessage}`,
+        log: context.log
       };
     }
   }
 
-  private async getOrCreateApp(name: string, repository: string | null, branch: string, startCommand: string, buildCommand?: string, installCommand?: string, runtime: 'node' | 'python' | 'bun' = 'node', port?: number) {
+  private async getOrCreateApp(name: string, repository: string | null, branch: string, startCommand?: string, buildCommand?: string, installCommand?: string, runtime?: Runtime, rootDirectory?: string, port?: number) {
     const app = dbHelpers.getAppByName(name);
 
     if (!app) {
@@ -821,13 +1824,18 @@ class DeploymentManager {
         repository_url: repository,
         branch,
         deploy_path: appPath,
-        start_command: startCommand,
+        start_command: startCommand || '',
         build_command: buildCommand,
         install_command: installCommand,
         runtime,
-        port: port || dbHelpers.generateUniquePort(),
+        port: runtime === 'static' ? null : port || dbHelpers.generateUniquePort(),
+        detected_fields: this.getUnsetFields({ runtime, installCommand, buildCommand, startCommand })
       });
 
+      if (rootDirectory) {
+        dbHelpers.updateApp(result.lastInsertRowid as number, { root_directory: rootDirectory });
+      }
+
       // Create environment file for the new app
       try {
         await envManager.createEnvFile(name);
@@ -839,22 +1847,30 @@ class DeploymentManager {
     }
     
     // Update existing app
-    const updates: any = {
-      start_command: startCommand,
-      runtime
-    };
+    const updates: any = {};
     
     if (repository) updates.repository_url = repository;
     if (branch) updates.branch = branch;
+    if (startCommand) updates.start_command = startCommand;
+    if (runtime) updates.runtime = runtime;
     if (buildCommand !== undefined) updates.build_command = buildCommand;
     if (installCommand !== undefined) updates.install_command = installCommand;
+    if (rootDirectory !== undefined) updates.root_directory = rootDirectory || null;
     
     dbHelpers.updateApp((app as any).id, updates);
     
     return { lastInsertRowid: (app as any).id };
   }
 
-  async redeploy(appName: string): Promise<{ queueId: number; message: string }> {
+  // JSON list of the app columns left to detection when an app is created
+  getUnsetFields(settings: Partial<Record<keyof typeof DETECTABLE_SETTINGS, string>>): string | null {
+    const unset = (Object.keys(DETECTABLE_SETTINGS) as (keyof typeof DETECTABLE_SETTINGS)[])
+      .filter(option => !settings[option])
+      .map(option => DETECTABLE_SETTINGS[option]);
+    return unset.length > 0 ? JSON.stringify(unset) : null;
+  }
+
+  async redeploy(appName: string, ref?: string): Promise<{ queueId: number; message: string }> {
     const app = dbHelpers.getAppByName(appName) as any;
     
     if (!app) {
@@ -872,25 +1888,197 @@ class DeploymentManager {
       envObject[env.key] = env.value;
     });
 
+    // Inferred settings are left out so the project is inspected again
+    const detectedFields: string[] = app.detected_fields ? JSON.parse(app.detected_fields) : [];
+    const explicit = (column: string) => detectedFields.includes(column) ? undefined : app[column] || undefined;
+
     return this.deployFromGit({
       appName,
       repository: app.repository_url,
       branch: app.branch,
-      buildCommand: app.build_command,
-      installCommand: app.install_command,
-      startCommand: app.start_command,
-      runtime: app.runtime || 'node',
+      ref,
+      buildCommand: explicit('build_command'),
+      installCommand: explicit('install_command'),
+      startCommand: explicit('start_command'),
+      runtime: explicit('runtime'),
       envVars: envObject
     });
   }
 
-  async getDeploymentLogs(appName: string, limit: number = 10) {
+  // Put an app back on the release of a previous successful deployment.
+  // Nothing is rebuilt: the old release is switched back in and the service restarted.
+  async rollback(appName: string, deploymentId: number): Promise<{ deploymentId: number; message: string }> {
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      throw new Error(`App ${appName} not found`);
+    }
+
+    const target = dbHelpers.getDeployment(deploymentId) as any;
+    if (!target || target.app_id !== app.id) {
+      throw new Error(`Deployment ${deploymentId} not found for app ${appName}`);
+    }
+
+    if (target.status !== 'success' || !target.release_path) {
+      throw new Error(`Deployment ${deploymentId} did not produce a release that can be rolled back to`);
+    }
+
+    try {
+      await fs.access(target.release_path);
+    } catch {
+      throw new Error(`Release for deployment ${deploymentId} is no longer on disk`);
+    }
+
+    // Rollbacks go live straight away, so there is nothing to hold them in during a freeze
+    const freeze = deployFreezes.getActiveFreeze(appName);
+    if (freeze) {
+      throw new Error(`Rollbacks are blocked by ${describeFreeze(freeze)}`);
+    }
+
+    // A rollback supersedes anything still waiting to go out, and like a deployment it
+    // waits for the app's building deployment to stop before it touches the release
+    this.cancelExistingDeployments(appName);
+    await this.lockApp(appName);
+
+    try {
+      return await this.rollbackToRelease(app, target);
+    } finally {
+      this.activeApps.delete(appName);
+      this.queueSignal.emit('wake');
+    }
+  }
+
+  // Take the app's slot in the worker pool once no deployment of it is building.
+  // Waiting on `wake` works because workers emit it after freeing their slot.
+  private async lockApp(appName: string): Promise<void> {
+    while (this.activeApps.has(appName)) {
+      await new Promise(resolve => this.queueSignal.once('wake', resolve));
+    }
+    this.activeApps.add(appName);
+  }
+
+  // Switch an app back to the release of a previous deployment and restart it
+  private async rollbackToRelease(app: any, target: any): Promise<{ deploymentId: number; message: string }> {
+    const appName = app.name;
+    const deploymentId = target.id;
+    const options: Partial<DeploymentOptions> = target.options ? JSON.parse(target.options) : {};
+    const rollbackDeployment = dbHelpers.createDeployment(app.id, {
+      source: target.source,
+      options: target.options,
+      release_path: target.release_path
+    });
+    const rollbackId = rollbackDeployment.lastInsertRowid as number;
+    const context: DeploymentContext = {
+      appName,
+      deploymentId: rollbackId,
+      releasePath: target.release_path,
+      projectPath: target.release_path,
+      log: '',
+      secrets: []
+    };
+
+    const previousReleasePath = await releaseManager.getActiveReleasePath(appName);
+
+    try {
+      await this.appendLog(context, `Rolling back ${appName} to deployment ${deploymentId}${target.commit_hash ? ` (${target.commit_hash})` : ''}\n`);
+
+      await releaseManager.activateRelease(appName, target.release_path);
+      await this.appendLog(context, `Switched current release to ${path.basename(target.release_path)}\n`);
+
+      // Recreate the service with the start command the release was deployed with
+      await this.startService(
+        appName,
+        options.startCommand || app.start_command,
+        options.runtime || app.runtime || 'node',
+        target.source === 'file' ? 'www-data' : 'root'
+      );
+      await this.appendLog(context, `Application restarted successfully with systemctl\n`);
+
+      dbHelpers.updateApp(app.id, {
+        status: 'running',
+        latest_commit_hash: target.commit_hash,
+        latest_commit_message: target.commit_message
+      });
+      dbHelpers.updateDeploymentDetails(rollbackId, {
+        commit_hash: target.commit_hash,
+        commit_message: target.commit_message
+      });
+      dbHelpers.updateDeployment(rollbackId, 'success', context.log);
+
+      return {
+        deploymentId: rollbackId,
+        message: `${appName} rolled back to deployment ${deploymentId}`
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.appendLog(context, `\n❌ Error: ${errorMessage}\n`);
+
+      if (previousReleasePath) {
+        await this.restoreRelease(context, previousReleasePath);
+      }
+
+      dbHelpers.updateDeployment(rollbackId, 'failed', context.log);
+      throw new Error(`Rollback failed: ${errorMessage}`);
+    }
+  }
+
+  // Recent deployments of an app, or a single one, with their logs from byte `logOffset`
+  // up to `logLimit` bytes
+  async getDeploymentLogs(appName: string, limit: number = 10, range: { deploymentId?: number; logOffset?: number; logLimit?: number } = {}) {
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      throw new Error(`App ${appName} not found`);
+    }
+
+    const { deploymentId, logOffset = 0, logLimit } = range;
+    let deployments: any[];
+    if (deploymentId) {
+      const deployment = dbHelpers.getDeployment(deploymentId) as any;
+      if (!deployment || deployment.app_id !== app.id) {
+        throw new Error(`Deployment ${deploymentId} not found for ${appName}`);
+      }
+      deployments = [deployment];
+    } else {
+      deployments = dbHelpers.getAppDeployments(app.id, limit) as any[];
+    }
+
+    return Promise.all(deployments.map(async deployment => {
+      // Queued deployments write their log to the queue item's log file
+      const log = deployment.queue_id && !deployment.log
+        ? await deploymentLogs.read(deployment.queue_id, logOffset, logLimit)
+        : deploymentLogs.readText(deployment.log || '', logOffset, logLimit);
+
+      return {
+        ...deployment,
+        changes: deployment.changes ? JSON.parse(deployment.changes) : null,
+        log: log.content,
+        log_offset: log.offset,
+        log_next_offset: log.nextOffset,
+        log_size: log.size
+      };
+    }));
+  }
+
+  // Commits a deployment shipped, by default the latest successful one with a changelog
+  async getDeploymentChanges(appName: string, deploymentId?: number) {
     const app = dbHelpers.getAppByName(appName) as any;
     if (!app) {
       throw new Error(`App ${appName} not found`);
     }
 
-    return dbHelpers.getAppDeployments(app.id, limit);
+    const deployment = (deploymentId ? dbHelpers.getDeployment(deploymentId) : dbHelpers.getLatestDeploymentChanges(app.id)) as any;
+    if (!deployment || deployment.app_id !== app.id) {
+      throw new Error(deploymentId ? `Deployment ${deploymentId} not found for ${appName}` : `No deployment of ${appName} has recorded changes yet`);
+    }
+
+    return {
+      deploymentId: deployment.id,
+      status: deployment.status,
+      deployed_at: deployment.deployed_at,
+      previous_commit_hash: deployment.previous_commit_hash,
+      commit_hash: deployment.commit_hash,
+      commit_message: deployment.commit_message,
+      changes: deployment.changes ? JSON.parse(deployment.changes) as DeploymentChanges : null
+    };
   }
 
   async deleteApp(appName: string): Promise<void> {
@@ -907,8 +2095,21 @@ class DeploymentManager {
       console.log(`No systemctl service found for ${appName}`);
     }
 
-    // Remove app directory
-    const appPath = path.join(this.appsDirectory, appName);
+    // Remove the deploy key
+    try {
+      await deployKeyManager.deleteKey(appName);
+    } catch (error) {
+      console.log(`Could not remove deploy key for ${appName}:`, error);
+    }
+
+    // Remove the green slot of blue/green deployments
+    const greenService = this.getSlotServiceName(appName, 'green');
+    await systemctlManager.deleteService(greenService).catch(() => {});
+    await envManager.deleteOverrideEnvFile(appName).catch(() => {});
+    await envManager.deleteOverrideEnvFile(greenService).catch(() => {});
+
+    // Remove app directory, including all releases
+    const appPath = releaseManager.getAppRoot(appName);
     try {
       await fs.rm(appPath, { recursive: true, force: true });
     } catch (error) {
@@ -940,7 +2141,7 @@ class DeploymentManager {
   }
 
   // Method to emit completion status
-  private emitDeploymentComplete(queueId: number, status: 'completed' | 'failed') {
+  private emitDeploymentComplete(queueId: number, status: 'completed' | 'failed' | 'cancelled') {
     if (this.io && this.isStreamingActive(queueId)) {
       this.io.emit('deploy:log-stream-end', {
         queueId,
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Runtime } from './systemctl';
+
+export interface DetectedSettings {
+  runtime?: Runtime;
+  installCommand?: string;
+  buildCommand?: string;
+  startCommand?: string;
+  sources: string[]; // Files the settings were inferred from
+}
+
+// Files that run a python app when there is no Procfile, in order of preference
+const PYTHON_ENTRYPOINTS = ['main.py', 'app.py', 'server.py', 'wsgi.py'];
+
+// Files that run a node app when package.json has no start script or main
+const NODE_ENTRYPOINTS = ['index.js', 'server.js', 'app.js', 'main.js'];
+
+// Directories static site builds are written to, in order of preference
+const STATIC_OUTPUT_DIRECTORIES = ['dist', 'build', 'out', 'public'];
+
+class ProjectDetector {
+  /**
+   * Infer the runtime and the install, build and start commands of a project from its files
+   */
+  async detect(directory: string): Promise<DetectedSettings> {
+    const settings: DetectedSettings = { sources: [] };
+    const exists = (file: string) => fs.access(path.join(directory, file)).then(() => true, () => false);
+
+    const procfileCommand = await this.readProcfile(directory);
+    if (procfileCommand) {
+      settings.startCommand = procfileCommand;
+      settings.sources.push('Procfile');
+    }
+
+    const packageJson = await this.readPackageJson(directory);
+    const isBun = await exists('bun.lockb') || await exists('bun.lock');
+    const hasRequirements = await exists('requirements.txt');
+    const hasPyproject = await exists('pyproject.toml');
+
+    // A package.json without anything to run next to python files only holds frontend tooling
+    const isPythonWithAssets = (hasRequirements || hasPyproject)
+      && !packageJson?.scripts?.start && !packageJson?.main && !isBun;
+
+    if ((packageJson || isBun) && !isPythonWithAssets) {
+      await this.detectJavaScript(directory, packageJson, isBun, settings);
+    } else if (hasRequirements || hasPyproject) {
+      await this.detectPython(directory, hasRequirements, settings);
+    } else if (!procfileCommand && await exists('index.html')) {
+      // Plain HTML, published as is
+      settings.runtime = 'static';
+      settings.sources.push('index.html');
+    }
+
+    return settings;
+  }
+
+  /**
+   * Find the directory a static site build was written to, relative to the project.
+   * Returns null when there is nothing to publish.
+   */
+  async findOutputDirectory(directory: string): Promise<string | null> {
+    const exists = (file: string) => fs.access(path.join(directory, file)).then(() => true, () => false);
+
+    for (const candidate of STATIC_OUTPUT_DIRECTORIES) {
+      if (await exists(path.join(candidate, 'index.html'))) return candidate;
+    }
+    if (await exists('index.html')) return '.';
+    return null;
+  }
+
+  private async detectJavaScript(directory: string, packageJson: any, isBun: boolean, settings: DetectedSettings) {
+    const exists = (file: string) => fs.access(path.join(directory, file)).then(() => true, () => false);
+    const scripts = packageJson?.scripts || {};
+
+    settings.runtime = isBun ? 'bun' : 'node';
+    if (packageJson) settings.sources.push('package.json');
+
+    let runScript: (script: string) => string;
+    if (isBun) {
+      settings.sources.push(await exists('bun.lockb') ? 'bun.lockb' : 'bun.lock');
+      settings.installCommand = 'bun install';
+      runScript = script => `bun run ${script}`;
+    } else if (await exists('yarn.lock')) {
+      settings.sources.push('yarn.lock');
+      settings.installCommand = 'yarn install --frozen-lockfile';
+      runScript = script => `yarn ${script}`;
+    } else if (await exists('pnpm-lock.yaml')) {
+      settings.sources.push('pnpm-lock.yaml');
+      settings.installCommand = 'pnpm install --frozen-lockfile';
+      runScript = script => `pnpm run ${script}`;
+    } else if (await exists('package-lock.json')) {
+      settings.sources.push('package-lock.json');
+      settings.installCommand = 'npm ci';
+      runScript = script => `npm run ${script}`;
+    } else {
+      settings.installCommand = 'npm install';
+      runScript = script => `npm run ${script}`;
+    }
+
+    if (scripts.build) {
+      settings.buildCommand = runScript('build');
+    }
+
+    if (settings.startCommand) return;
+
+    const interpreter = isBun ? 'bun' : 'node';
+    if (scripts.start) {
+      settings.startCommand = runScript('start');
+    } else if (packageJson?.main) {
+      settings.startCommand = `${interpreter} ${packageJson.main}`;
+    } else {
+      const entrypoints = isBun ? ['index.ts', ...NODE_ENTRYPOINTS] : NODE_ENTRYPOINTS;
+      for (const entrypoint of entrypoints) {
+        if (await exists(entrypoint)) {
+          settings.startCommand = `${interpreter} ${entrypoint}`;
+          break;
+        }
+      }
+    }
+
+    // Nothing to run but something to build, e.g. a Vite or Create React App site
+    if (!settings.startCommand && settings.buildCommand) {
+      settings.runtime = 'static';
+    }
+  }
+
+  private async detectPython(directory: string, hasRequirements: boolean, settings: DetectedSettings) {
+    settings.runtime = 'python';
+
+    if (hasRequirements) {
+      settings.sources.push('requirements.txt');
+      settings.installCommand = 'pip install -r requirements.txt';
+    } else {
+      settings.sources.push('pyproject.toml');
+      settings.installCommand = 'pip install .';
+    }
+
+    if (settings.startCommand) return;
+
+    for (const entrypoint of PYTHON_ENTRYPOINTS) {
+      try {
+        await fs.access(path.join(directory, entrypoint));
+        settings.startCommand = `python ${entrypoint}`;
+        return;
+      } catch {
+        // Try the next entrypoint
+      }
+    }
+  }
+
+  // Command of the `web` process in a Procfile, or of its only process
+  private async readProcfile(directory: string): Promise<string | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(directory, 'Procfile'), 'utf8');
+    } catch {
+      return undefined;
+    }
+
+    const processes = new Map<string, string>();
+    for (const line of content.split('\n')) {
+      const match = line.match(/^([A-Za-z0-9_-]+):\s*(.+)$/);
+      if (match) {
+        processes.set(match[1], match[2].trim());
+      }
+    }
+
+    if (processes.has('web')) return processes.get('web');
+    if (processes.size === 1) return [...processes.values()][0];
+    return undefined;
+  }
+
+  private async readPackageJson(directory: string): Promise<any | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(directory, 'package.json'), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+}
+
+export default new ProjectDetector();
@@ -184,6 +184,49 @@ class EnvironmentManager {
     return this.getEnvFilePath(appName);
   }
 
+  /**
+   * Get the path of a service's override file, which is read after the app's environment file
+   */
+  getOverrideEnvFilePath(serviceName: string): string {
+    return path.join(this.envsDirectory, `liteshift-${serviceName}.override.env`);
+  }
+
+  /**
+   * Write variables that override the app's environment file for a single service
+   */
+  async writeOverrideEnvFile(serviceName: string, vars: Record<string, string>): Promise<string> {
+    await this.ensureEnvsDirectory();
+
+    const overrideFilePath = this.getOverrideEnvFilePath(serviceName);
+    let content = `# Overrides for LiteShift service liteshift-${serviceName}\n`;
+    content += `# Generated at ${new Date().toISOString()}\n\n`;
+    for (const [key, value] of Object.entries(vars)) {
+      content += `${key}=${this.escapeEnvValue(value)}\n`;
+    }
+
+    try {
+      await fs.writeFile(overrideFilePath, content, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to write override environment file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return overrideFilePath;
+  }
+
+  /**
+   * Delete a service's override file
+   */
+  async deleteOverrideEnvFile(serviceName: string): Promise<void> {
+    try {
+      await fs.unlink(this.getOverrideEnvFilePath(serviceName));
+    } catch (error) {
+      // File might not exist, which is fine
+      if ((error as any).code !== 'ENOENT') {
+        throw new Error(`Failed to delete override environment file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
   /**
    * Check if environment file exists for an app
    */
@@ -0,0 +1,175 @@
+import { dbHelpers } from './db';
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface FreezeOptions {
+  appName?: string; // Freezes every app when not given
+  type: 'range' | 'weekly';
+  startsAt?: string; // Range only, an ISO timestamp
+  endsAt?: string; // Range only, an ISO timestamp
+  weekdays?: (number | string)[]; // Weekly only, 0-6 or sun-sat, every day when not given
+  startTime?: string; // Weekly only, HH:MM in the host's local time
+  endTime?: string; // Weekly only, HH:MM, before startTime for windows that cross midnight
+  reason?: string;
+}
+
+export interface DeployFreeze {
+  id: number;
+  app_id: number | null;
+  app_name: string | null;
+  type: 'range' | 'weekly';
+  starts_at: string | null;
+  ends_at: string | null;
+  weekdays: string | null; // Comma separated, 0 is Sunday
+  start_time: string | null;
+  end_time: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+const parseTime = (time: string | undefined, field: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`${field} must be a time of day as HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const parseWeekday = (day: number | string): number => {
+  const nameIndex = DAY_NAMES.indexOf(String(day).toLowerCase().slice(0, 3));
+  const parsed = nameIndex >= 0 ? nameIndex : Number(day);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 7) {
+    throw new Error(`Invalid weekday '${day}', expected 0-6 or sun-sat`);
+  }
+  // 7 is Sunday too, like in cron
+  return parsed % 7;
+};
+
+/**
+ * Whether a freeze window covers `at`. Weekly windows are in the host's local time, and
+ * one crossing midnight belongs to the day it starts on.
+ */
+export const isFreezeActive = (freeze: DeployFreeze, at: Date): boolean => {
+  if (freeze.type === 'range') {
+    return new Date(freeze.starts_at!).getTime() <= at.getTime() && at.getTime() < new Date(freeze.ends_at!).getTime();
+  }
+
+  const weekdays = freeze.weekdays ? freeze.weekdays.split(',').map(Number) : [0, 1, 2, 3, 4, 5, 6];
+  const start = parseTime(freeze.start_time!, 'start_time');
+  const end = parseTime(freeze.end_time!, 'end_time');
+  const minutes = at.getHours() * 60 + at.getMinutes();
+
+  if (start < end) {
+    return weekdays.includes(at.getDay()) && minutes >= start && minutes < end;
+  }
+  // Crosses midnight, or runs all day when start and end are equal
+  const yesterday = (at.getDay() + 6) % 7;
+  return (weekdays.includes(at.getDay()) && minutes >= start) || (weekdays.includes(yesterday) && minutes < end);
+};
+
+/**
+ * Describe a freeze window for queue items held by it
+ */
+export const describeFreeze = (freeze: DeployFreeze): string => {
+  const scope = freeze.app_id === null ? 'Global deploy freeze' : `Deploy freeze for ${freeze.app_name}`;
+  const window = freeze.type === 'range'
+    ? `from ${freeze.starts_at} to ${freeze.ends_at}`
+    : `${freeze.weekdays ? freeze.weekdays.split(',').map(day => DAY_NAMES[Number(day)]).join(',') : 'daily'} ${freeze.start_time}-${freeze.end_time}`;
+  return `${scope} ${window}${freeze.reason ? `: ${freeze.reason}` : ''}`;
+};
+
+class DeployFreezeManager {
+  /**
+   * Add a freeze window, for one app or for every app
+   */
+  createFreeze(options: FreezeOptions): number {
+    let appId: number | null = null;
+    if (options.appName) {
+      const app = dbHelpers.getAppByName(options.appName) as any;
+      if (!app) {
+        throw new Error(`App ${options.appName} not found`);
+      }
+      appId = app.id;
+    }
+
+    if (options.type === 'range') {
+      const startsAt = new Date(options.startsAt || '');
+      const endsAt = new Date(options.endsAt || '');
+      if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+        throw new Error('startsAt and endsAt must be ISO timestamps');
+      }
+      if (endsAt <= startsAt) {
+        throw new Error('endsAt must be after startsAt');
+      }
+
+      const result = dbHelpers.createDeployFreeze({
+        app_id: appId,
+        type: 'range',
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        weekdays: null,
+        start_time: null,
+        end_time: null,
+        reason: options.reason || null
+      });
+      return result.lastInsertRowid as number;
+    }
+
+    if (options.type === 'weekly') {
+      parseTime(options.startTime, 'startTime');
+      parseTime(options.endTime, 'endTime');
+      const weekdays = options.weekdays && options.weekdays.length > 0
+        ? [...new Set(options.weekdays.map(parseWeekday))].sort((a, b) => a - b)
+        : null;
+
+      const result = dbHelpers.createDeployFreeze({
+        app_id: appId,
+        type: 'weekly',
+        starts_at: null,
+        ends_at: null,
+        weekdays: weekdays ? weekdays.join(',') : null,
+        start_time: options.startTime!.padStart(5, '0'),
+        end_time: options.endTime!.padStart(5, '0'),
+        reason: options.reason || null
+      });
+      return result.lastInsertRowid as number;
+    }
+
+    throw new Error(`type must be 'range' or 'weekly'`);
+  }
+
+  /**
+   * List freeze windows, with an app name the ones that apply to that app, global ones included
+   */
+  listFreezes(appName?: string): DeployFreeze[] {
+    if (!appName) {
+      return dbHelpers.getDeployFreezes() as DeployFreeze[];
+    }
+
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      throw new Error(`App ${appName} not found`);
+    }
+    return dbHelpers.getDeployFreezes(app.id) as DeployFreeze[];
+  }
+
+  deleteFreeze(id: number) {
+    if (!dbHelpers.getDeployFreeze(id)) {
+      throw new Error(`Freeze ${id} not found`);
+    }
+    dbHelpers.deleteDeployFreeze(id);
+  }
+
+  /**
+   * The first freeze window covering an app at `at`, if any
+   */
+  getActiveFreeze(appName: string, at: Date = new Date()): DeployFreeze | null {
+    const app = dbHelpers.getAppByName(appName) as any;
+    const freezes = app
+      ? dbHelpers.getDeployFreezes(app.id) as DeployFreeze[]
+      : (dbHelpers.getDeployFreezes() as DeployFreeze[]).filter(freeze => freeze.app_id === null);
+    return freezes.find(freeze => isFreezeActive(freeze, at)) || null;
+  }
+}
+
+export default new DeployFreezeManager();
@@ -0,0 +1,110 @@
+import http from 'http';
+import net from 'net';
+
+export type HealthCheckType = 'none' | 'http' | 'tcp';
+
+export interface HealthCheckConfig {
+  type: HealthCheckType;
+  port: number;
+  path: string;
+  timeout: number; // Seconds per attempt
+  retries: number;
+  interval: number; // Seconds between attempts
+  expectedStatus: number;
+}
+
+export interface HealthCheckResult {
+  healthy: boolean;
+  attempts: number;
+  message: string;
+}
+
+class HealthChecker {
+  /**
+   * Build the health check configuration of an app from its database row
+   */
+  getConfig(app: any, port: number = app.port): HealthCheckConfig {
+    return {
+      type: app.health_check_type || 'none',
+      port,
+      path: app.health_check_path || '/',
+      timeout: app.health_check_timeout || 5,
+      retries: app.health_check_retries || 5,
+      interval: app.health_check_interval || 3,
+      expectedStatus: app.health_check_expected_status || 200
+    };
+  }
+
+  /**
+   * Check an app until it answers or the retries run out.
+   * `onAttempt` is called with the outcome of every attempt.
+   */
+  async check(config: HealthCheckConfig, onAttempt?: (message: string) => Promise<void> | void): Promise<HealthCheckResult> {
+    const target = config.type === 'http'
+      ? `http://localhost:${config.port}${config.path.startsWith('/') ? config.path : `/${config.path}`}`
+      : `localhost:${config.port}`;
+
+    let lastError = 'No attempts made';
+
+    for (let attempt = 1; attempt <= config.retries; attempt++) {
+      try {
+        const message = config.type === 'http'
+          ? await this.checkHttp(target, config.timeout * 1000, config.expectedStatus)
+          : await this.checkTcp(config.port, config.timeout * 1000);
+
+        await onAttempt?.(`Health check attempt ${attempt}/${config.retries} passed: ${message}\n`);
+        return { healthy: true, attempts: attempt, message };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        await onAttempt?.(`Health check attempt ${attempt}/${config.retries} failed: ${lastError}\n`);
+      }
+
+      if (attempt < config.retries) {
+        await new Promise(resolve => setTimeout(resolve, config.interval * 1000));
+      }
+    }
+
+    return {
+      healthy: false,
+      attempts: config.retries,
+      message: `${config.type.toUpperCase()} check against ${target} failed after ${config.retries} attempt(s): ${lastError}`
+    };
+  }
+
+  private checkHttp(url: string, timeoutMs: number, expectedStatus: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const request = http.get(url, { timeout: timeoutMs }, (response) => {
+        response.resume();
+        if (response.statusCode === expectedStatus) {
+          resolve(`${url} returned ${response.statusCode}`);
+        } else {
+          reject(new Error(`${url} returned ${response.statusCode}, expected ${expectedStatus}`));
+        }
+      });
+
+      request.on('timeout', () => {
+        request.destroy(new Error(`${url} did not respond within ${timeoutMs / 1000}s`));
+      });
+      request.on('error', reject);
+    });
+  }
+
+  private checkTcp(port: number, timeoutMs: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: 'localhost', port });
+      socket.setTimeout(timeoutMs);
+
+      socket.on('connect', () => {
+        socket.destroy();
+        resolve(`port ${port} accepted a connection`);
+      });
+      socket.on('timeout', () => {
+        socket.destroy();
+        reject(new Error(`port ${port} did not accept a connection within ${timeoutMs / 1000}s`));
+      });
+      socket.on('error', reject);
+    });
+  }
+}
+
+export default new HealthChecker();
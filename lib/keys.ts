@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { dbHelpers } from './db';
+
+const execFileAsync = promisify(execFile);
+
+// Quote a value for the shell git runs GIT_SSH_COMMAND with
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+class DeployKeyManager {
+  private keysDirectory: string;
+
+  constructor() {
+    this.keysDirectory = dbHelpers.getSetting('keys_directory') || '/var/www/keys';
+  }
+
+  /**
+   * Get the directory holding an app's deploy key and known hosts
+   */
+  private getKeyDirectory(appName: string): string {
+    return path.join(this.keysDirectory, appName);
+  }
+
+  /**
+   * Get the path to an app's private deploy key
+   */
+  getPrivateKeyPath(appName: string): string {
+    return path.join(this.getKeyDirectory(appName), 'id_ed25519');
+  }
+
+  /**
+   * Get the path to an app's public deploy key
+   */
+  getPublicKeyPath(appName: string): string {
+    return `${this.getPrivateKeyPath(appName)}.pub`;
+  }
+
+  /**
+   * Generate a new ed25519 key pair for an app, replacing the existing one when `overwrite` is set
+   */
+  async generateKey(appName: string, overwrite: boolean = false): Promise<string> {
+    if (!overwrite && await this.hasKey(appName)) {
+      throw new Error(`App ${appName} already has a deploy key`);
+    }
+
+    const keyDirectory = this.getKeyDirectory(appName);
+    const privateKeyPath = this.getPrivateKeyPath(appName);
+
+    try {
+      await fs.mkdir(this.keysDirectory, { recursive: true, mode: 0o700 });
+      await fs.mkdir(keyDirectory, { recursive: true, mode: 0o700 });
+      await fs.chmod(keyDirectory, 0o700);
+
+      await fs.rm(privateKeyPath, { force: true });
+      await fs.rm(this.getPublicKeyPath(appName), { force: true });
+
+      // No shell, the app name ends up in the key comment as is
+      await execFileAsync('ssh-keygen', ['-t', 'ed25519', '-N', '', '-q', '-C', `liteshift-${appName}`, '-f', privateKeyPath]);
+      await fs.chmod(privateKeyPath, 0o600);
+    } catch (error) {
+      throw new Error(`Failed to generate deploy key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const publicKey = await this.getPublicKey(appName);
+    if (!publicKey) {
+      throw new Error('Failed to generate deploy key: public key was not written');
+    }
+    return publicKey;
+  }
+
+  /**
+   * Get the public deploy key of an app, or null if it has none
+   */
+  async getPublicKey(appName: string): Promise<string | null> {
+    try {
+      return (await fs.readFile(this.getPublicKeyPath(appName), 'utf8')).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if an app has a deploy key
+   */
+  async hasKey(appName: string): Promise<boolean> {
+    try {
+      await fs.access(this.getPrivateKeyPath(appName));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remove an app's deploy key and known hosts
+   */
+  async deleteKey(appName: string): Promise<void> {
+    await fs.rm(this.getKeyDirectory(appName), { recursive: true, force: true });
+  }
+
+  /**
+   * Build the GIT_SSH_COMMAND that makes git use an app's deploy key, or null if it has none.
+   * Host keys are accepted on first use and pinned in a known_hosts file next to the key.
+   */
+  async getSshCommand(appName: string): Promise<string | null> {
+    if (!await this.hasKey(appName)) {
+      return null;
+    }
+
+    const knownHostsPath = path.join(this.getKeyDirectory(appName), 'known_hosts');
+    return [
+      'ssh',
+      `-i ${shellQuote(this.getPrivateKeyPath(appName))}`,
+      '-o IdentitiesOnly=yes',
+      '-o StrictHostKeyChecking=accept-new',
+      `-o UserKnownHostsFile=${shellQuote(knownHostsPath)}`
+    ].join(' ');
+  }
+}
+
+export default new DeployKeyManager();
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import { dbHelpers } from './db';
+
+// A byte range of a log, `nextOffset` is where the following read starts
+export interface LogChunk {
+  content: string;
+  offset: number;
+  nextOffset: number;
+  size: number; // Size of the whole log in bytes
+}
+
+const LOG_FILE_PATTERN = /^queue_(\d+)\.log$/;
+
+// Smallest read, so a range always holds at least one complete character
+const MIN_READ_BYTES = 4;
+
+class DeploymentLogStore {
+  private logsDirectory: string;
+
+  constructor() {
+    this.logsDirectory = path.join(process.cwd(), 'data', 'logs');
+  }
+
+  /**
+   * Get the path to the log file of a queue item
+   */
+  getLogPath(queueId: number): string {
+    return path.join(this.logsDirectory, `queue_${queueId}.log`);
+  }
+
+  /**
+   * Append output to the log of a queue item. Writes are synchronous so chunks
+   * coming from concurrent streams keep their order.
+   */
+  append(queueId: number, message: string): void {
+    fs.mkdirSync(this.logsDirectory, { recursive: true });
+    fs.appendFileSync(this.getLogPath(queueId), message);
+  }
+
+  /**
+   * Size of the log of a queue item in bytes, 0 when it has none
+   */
+  getSize(queueId: number): number {
+    try {
+      return fs.statSync(this.getLogPath(queueId)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Read the log of a queue item from a byte offset, up to `limit` bytes or to the end
+   */
+  async read(queueId: number, offset: number = 0, limit?: number): Promise<LogChunk> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(this.getLogPath(queueId), 'r');
+    } catch {
+      return { content: '', offset: 0, nextOffset: 0, size: 0 };
+    }
+
+    try {
+      const { size } = await handle.stat();
+      const { start, end } = this.getRange(size, offset, limit);
+      const buffer = Buffer.alloc(end - start);
+      await handle.read(buffer, 0, buffer.length, start);
+      return this.toChunk(buffer, start, end < size, size);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Read a log kept as text (deployments that did not run through the queue) the same way
+   */
+  readText(text: string, offset: number = 0, limit?: number): LogChunk {
+    const buffer = Buffer.from(text, 'utf8');
+    const { start, end } = this.getRange(buffer.length, offset, limit);
+    return this.toChunk(buffer.subarray(start, end), start, end < buffer.length, buffer.length);
+  }
+
+  /**
+   * Remove the log of a queue item
+   */
+  async remove(queueId: number): Promise<void> {
+    await fs.promises.rm(this.getLogPath(queueId), { force: true });
+  }
+
+  /**
+   * Move logs still stored in the deployment_queue table into log files
+   */
+  migrateDatabaseLogs(): number {
+    let migrated = 0;
+
+    for (const item of dbHelpers.getAllQueueItems() as any[]) {
+      if (!item.logs) continue;
+
+      if (!fs.existsSync(this.getLogPath(item.id))) {
+        this.append(item.id, item.logs);
+      }
+      dbHelpers.updateQueueLogs(item.id, '');
+      migrated++;
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Remove logs of queue items that finished more than `retentionDays` days ago
+   * (0 keeps them forever), and of queue items that no longer exist
+   */
+  async cleanup(retentionDays: number): Promise<number> {
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(this.logsDirectory);
+    } catch {
+      return 0;
+    }
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const entry of entries) {
+      const match = entry.match(LOG_FILE_PATTERN);
+      if (!match) continue;
+
+      const item = dbHelpers.getQueueItem(parseInt(match[1], 10)) as any;
+      // Items still waiting need their log, held ones above all until an admin reviews them
+      if (item && (item.status === 'queued' || item.status === 'building' || item.status === 'awaiting_approval')) continue;
+
+      const logPath = path.join(this.logsDirectory, entry);
+      if (item) {
+        if (retentionDays <= 0) continue;
+
+        const { mtimeMs } = await fs.promises.stat(logPath);
+        if (mtimeMs >= cutoff) continue;
+      }
+
+      await fs.promises.rm(logPath, { force: true });
+      removed++;
+    }
+
+    return removed;
+  }
+
+  private getRange(size: number, offset: number, limit?: number) {
+    const start = Math.min(Math.max(offset, 0), size);
+    const end = limit ? Math.min(start + Math.max(limit, MIN_READ_BYTES), size) : size;
+    return { start, end };
+  }
+
+  // A range cut in the middle of a multi-byte character ends before it, the next read returns it whole
+  private toChunk(buffer: Buffer, start: number, isPartial: boolean, size: number): LogChunk {
+    let length = buffer.length;
+
+    if (isPartial) {
+      for (let i = buffer.length - 1; i >= Math.max(0, buffer.length - MIN_READ_BYTES); i--) {
+        const byte = buffer[i];
+        if ((byte & 0xc0) === 0x80) continue; // Continuation byte
+
+        const charLength = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+        if (buffer.length - i < charLength) length = i;
+        break;
+      }
+    }
+
+    return {
+      content: buffer.subarray(0, length).toString('utf8'),
+      offset: start,
+      nextOffset: start + length,
+      size
+    };
+  }
+}
+
+export default new DeploymentLogStore();
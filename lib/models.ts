@@ -60,6 +60,11 @@ export interface Deployment {
     app_id: number;
     status: string;
     log?: string;
+    source?: 'git' | 'file';
+    options?: string; // JSON string of the deployment options (without env vars)
+    release_path?: string;
+    commit_hash?: string;
+    commit_message?: string;
     deployed_at: string; // ISO date string
 }
 
@@ -70,13 +75,17 @@ export interface DeploymentQueueItem {
     id: number;
     app_name: string;
     type: 'git' | 'file';
-    status: 'queued' | 'building' | 'completed' | 'failed';
+    status: 'queued' | 'building' | 'completed' | 'failed' | 'cancelled' | 'interrupted' | 'awaiting_approval' | 'rejected';
     options: string; // JSON string typically
     logs: string;
     created_at: string; // ISO date string
     started_at?: string; // ISO date string
     completed_at?: string; // ISO date string
     error_message?: string;
+    recovery_attempts: number; // Times a restart put the item back in the queue
+    approval_reason?: string; // Why the item was held for approval
+    reviewed_by?: string; // Username of the admin who approved or rejected it
+    reviewed_at?: string; // ISO date string
 }
 
 /**
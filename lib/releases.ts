@@ -0,0 +1,227 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { dbHelpers } from './db';
+
+// Entries LiteShift manages inside an app directory
+const MANAGED_ENTRIES = ['releases', 'current', 'repo', 'cache', 'venv', 'venvs'];
+
+// Name of the link, or directory, in a release that holds its python virtualenv
+const RELEASE_VIRTUALENV = '.liteshift-venv';
+
+class ReleaseManager {
+  private appsDirectory: string;
+
+  constructor() {
+    this.appsDirectory = dbHelpers.getSetting('apps_directory') || '/var/www/apps';
+  }
+
+  /**
+   * Get the root directory of an app (holds releases, the current symlink, the repository and dependency caches)
+   */
+  getAppRoot(appName: string): string {
+    return path.join(this.appsDirectory, appName);
+  }
+
+  /**
+   * Get the directory holding all releases of an app
+   */
+  getReleasesDirectory(appName: string): string {
+    return path.join(this.getAppRoot(appName), 'releases');
+  }
+
+  /**
+   * Get the directory of a single release
+   */
+  getReleasePath(appName: string, releaseId: number | string): string {
+    return path.join(this.getReleasesDirectory(appName), String(releaseId));
+  }
+
+  /**
+   * Get the path of the `current` symlink, which always points at the live release
+   */
+  getCurrentPath(appName: string): string {
+    return path.join(this.getAppRoot(appName), 'current');
+  }
+
+  /**
+   * Get the path of the local repository clone used as the source for new releases
+   */
+  getRepositoryPath(appName: string): string {
+    return path.join(this.getAppRoot(appName), 'repo');
+  }
+
+  /**
+   * Get the directory holding the virtualenvs of a python app, one per set of dependencies
+   */
+  getVirtualenvsDirectory(appName: string): string {
+    return path.join(this.getAppRoot(appName), 'venvs');
+  }
+
+  /**
+   * Get the path of the virtualenv built for the dependencies hashed to `key`
+   */
+  getVirtualenvPath(appName: string, key: string): string {
+    return path.join(this.getVirtualenvsDirectory(appName), key);
+  }
+
+  /**
+   * Get the path of a release's virtualenv, a link to its entry in the `venvs` directory
+   */
+  getReleaseVirtualenvPath(releasePath: string): string {
+    return path.join(releasePath, RELEASE_VIRTUALENV);
+  }
+
+  /**
+   * Get the path of the virtualenv all releases shared before each got its own,
+   * still used by releases deployed back then
+   */
+  getLegacyVirtualenvPath(appName: string): string {
+    return path.join(this.getAppRoot(appName), 'venv');
+  }
+
+  /**
+   * Create an empty release directory, replacing any leftovers with the same id
+   */
+  async createRelease(appName: string, releaseId: number | string): Promise<string> {
+    const releasePath = this.getReleasePath(appName, releaseId);
+    await fs.rm(releasePath, { recursive: true, force: true });
+    await fs.mkdir(releasePath, { recursive: true });
+    return releasePath;
+  }
+
+  /**
+   * Atomically point the `current` symlink at a release.
+   * The new link is created next to `current` and renamed over it, so there is
+   * never a moment where `current` is missing.
+   */
+  async activateRelease(appName: string, releasePath: string): Promise<void> {
+    const appRoot = this.getAppRoot(appName);
+    const currentPath = this.getCurrentPath(appName);
+    const tempLinkPath = path.join(appRoot, `.current-${Date.now()}`);
+
+    await fs.symlink(path.relative(appRoot, releasePath), tempLinkPath, 'dir');
+    try {
+      await fs.rename(tempLinkPath, currentPath);
+    } catch (error) {
+      await fs.unlink(tempLinkPath).catch(() => {});
+      throw new Error(`Failed to switch current release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the absolute path of the release `current` points at, or null if there is none
+   */
+  async getActiveReleasePath(appName: string): Promise<string | null> {
+    try {
+      const target = await fs.readlink(this.getCurrentPath(appName));
+      return path.resolve(this.getAppRoot(appName), target);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * List release ids of an app, newest first
+   */
+  async listReleases(appName: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.getReleasesDirectory(appName), { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort((a, b) => Number(b) - Number(a));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Remove a release directory
+   */
+  async removeRelease(releasePath: string): Promise<void> {
+    await fs.rm(releasePath, { recursive: true, force: true });
+  }
+
+  /**
+   * Remove old releases, keeping the newest `keep` ones and always the active release
+   */
+  async pruneReleases(appName: string, keep?: number): Promise<string[]> {
+    const keepCount = keep ?? (parseInt(dbHelpers.getSetting('releases_to_keep') || '5', 10) || 5);
+    const activeReleasePath = await this.getActiveReleasePath(appName);
+    const releases = await this.listReleases(appName);
+    const removed: string[] = [];
+
+    for (const releaseId of releases.slice(Math.max(keepCount, 1))) {
+      const releasePath = this.getReleasePath(appName, releaseId);
+      if (releasePath === activeReleasePath) continue;
+
+      await this.removeRelease(releasePath);
+      removed.push(releaseId);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Remove virtualenvs no release links to anymore
+   */
+  async pruneVirtualenvs(appName: string): Promise<string[]> {
+    const virtualenvsDirectory = this.getVirtualenvsDirectory(appName);
+    const removed: string[] = [];
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(virtualenvsDirectory);
+    } catch {
+      return removed;
+    }
+
+    const linked = new Set<string>();
+    for (const releaseId of await this.listReleases(appName)) {
+      const linkPath = this.getReleaseVirtualenvPath(this.getReleasePath(appName, releaseId));
+      try {
+        linked.add(path.resolve(path.dirname(linkPath), await fs.readlink(linkPath)));
+      } catch {
+        // No virtualenv, or one inside the release
+      }
+    }
+
+    for (const entry of entries) {
+      const virtualenv = path.join(virtualenvsDirectory, entry);
+      if (linked.has(virtualenv)) continue;
+
+      await fs.rm(virtualenv, { recursive: true, force: true });
+      removed.push(entry);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Remove files left over from the old in-place layout, where the app was
+   * checked out directly into its app directory. Only call this once `current`
+   * is live, since the old service may still be running from these files.
+   */
+  async cleanupLegacyLayout(appName: string): Promise<string[]> {
+    const appRoot = this.getAppRoot(appName);
+    const removed: string[] = [];
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(appRoot);
+    } catch {
+      return removed;
+    }
+
+    for (const entry of entries) {
+      if (MANAGED_ENTRIES.includes(entry) || entry.startsWith('.current-')) continue;
+
+      await fs.rm(path.join(appRoot, entry), { recursive: true, force: true });
+      removed.push(entry);
+    }
+
+    return removed;
+  }
+}
+
+export default new ReleaseManager();
@@ -0,0 +1,328 @@
+import { dbHelpers } from './db';
+import { isSafeGitRef } from './utils';
+import DeploymentManager from './deployment';
+
+// How often due schedules are looked for
+const TICK_INTERVAL_MS = 30 * 1000;
+
+// Furthest a cron expression is searched for its next run
+const MAX_CRON_SEARCH_YEARS = 5;
+
+const CRON_SHORTCUTS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron runs on either day field when both are restricted
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+export interface ScheduleOptions {
+  cron?: string; // Recurring, a 5-field cron expression in the host's local time
+  runAt?: string; // Once, an ISO timestamp
+  ref?: string;
+  missedRuns?: 'skip' | 'run';
+}
+
+// Parse one field of a cron expression, e.g. `*/15`, `1-5` or `mon,wed,fri`
+const parseCronField = (field: string, min: number, max: number, names: string[] = []): Set<number> => {
+  const values = new Set<number>();
+
+  const parseValue = (value: string): number => {
+    const nameIndex = names.indexOf(value.toLowerCase());
+    const parsed = nameIndex >= 0 ? nameIndex + min : Number(value);
+    if ((nameIndex < 0 && !/^\d+$/.test(value)) || parsed < min || parsed > max) {
+      throw new Error(`Invalid cron value '${value}', expected ${min}-${max}`);
+    }
+    return parsed;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step in '${part}'`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      end = parseValue(to);
+      if (start > end) {
+        throw new Error(`Invalid cron range '${range}'`);
+      }
+    } else {
+      start = parseValue(range);
+      // `5/15` means from 5 to the end of the range in steps of 15
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week) or a
+ * shortcut like `@daily`
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const normalized = CRON_SHORTCUTS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  // Day of week 7 is Sunday too
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    restrictsDayOfMonth: dayOfMonth !== '*',
+    restrictsDayOfWeek: dayOfWeek !== '*'
+  };
+};
+
+/**
+ * First time strictly after `after` a cron schedule fires, in the host's local time,
+ * or null if it never does (like `0 0 30 2 *`)
+ */
+export const getNextCronRun = (schedule: CronSchedule, after: Date): Date | null => {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_CRON_SEARCH_YEARS);
+
+  const matchesDay = (date: Date) => {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+    if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  };
+
+  // Skip whole months, days and hours that cannot match before stepping by minutes
+  while (next < limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+
+  return null;
+};
+
+class DeploymentScheduler {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Handle runs missed while the process was down, then start queueing due schedules
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    try {
+      this.handleMissedRuns();
+    } catch (error) {
+      console.error('Failed to handle missed scheduled deployments:', error);
+    }
+
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Schedule redeployments of a Git app, once at `runAt` or recurring on a cron expression
+   */
+  createSchedule(appName: string, options: ScheduleOptions): number {
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      throw new Error(`App ${appName} not found`);
+    }
+    if (!app.repository_url) {
+      throw new Error(`App ${appName} was not deployed from Git and cannot be redeployed on a schedule`);
+    }
+
+    const { cron, runAt, ref, missedRuns = 'skip' } = options;
+    if (!cron === !runAt) {
+      throw new Error('Exactly one of cron and runAt is required');
+    }
+    if (missedRuns !== 'skip' && missedRuns !== 'run') {
+      throw new Error(`missedRuns must be 'skip' or 'run'`);
+    }
+    if (ref && !isSafeGitRef(ref)) {
+      throw new Error(`Invalid ref '${ref}'`);
+    }
+
+    let nextRun: Date | null;
+    if (cron) {
+      nextRun = getNextCronRun(parseCron(cron), new Date());
+      if (!nextRun) {
+        throw new Error(`Cron expression '${cron}' never runs`);
+      }
+    } else {
+      nextRun = new Date(runAt!);
+      if (isNaN(nextRun.getTime())) {
+        throw new Error(`Invalid runAt '${runAt}', expected an ISO timestamp`);
+      }
+      if (nextRun.getTime() <= Date.now()) {
+        throw new Error('runAt must be in the future');
+      }
+    }
+
+    const result = dbHelpers.createDeploySchedule(app.id, {
+      cron: cron ? cron.trim() : null,
+      run_at: runAt ? nextRun.toISOString() : null,
+      ref: ref || null,
+      missed_runs: missedRuns,
+      next_run_at: nextRun.toISOString()
+    });
+    return result.lastInsertRowid as number;
+  }
+
+  listSchedules(appName?: string): any[] {
+    if (!appName) {
+      return dbHelpers.getDeploySchedules();
+    }
+
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      throw new Error(`App ${appName} not found`);
+    }
+    return dbHelpers.getDeploySchedules(app.id);
+  }
+
+  deleteSchedule(id: number) {
+    if (!dbHelpers.getDeploySchedule(id)) {
+      throw new Error(`Schedule ${id} not found`);
+    }
+    dbHelpers.deleteDeploySchedule(id);
+  }
+
+  // Anything due at startup came due while the process was down. Each schedule
+  // either runs once now or skips, however many runs it missed, as its
+  // `missed_runs` says.
+  private handleMissedRuns() {
+    const now = new Date();
+
+    for (const schedule of dbHelpers.getDueDeploySchedules(now.toISOString()) as any[]) {
+      if (schedule.missed_runs === 'run') {
+        console.log(`Running scheduled deployment ${schedule.id} of ${schedule.app_name} missed at ${schedule.next_run_at}`);
+        this.runSchedule(schedule, now);
+      } else {
+        console.log(`Skipping scheduled deployment ${schedule.id} of ${schedule.app_name} missed at ${schedule.next_run_at}`);
+        this.finishRun(schedule, now, { last_status: 'missed', last_queue_id: null, last_error: `Missed at ${schedule.next_run_at} while LiteShift was down` });
+      }
+    }
+  }
+
+  private tick() {
+    try {
+      const now = new Date();
+      for (const schedule of dbHelpers.getDueDeploySchedules(now.toISOString()) as any[]) {
+        this.runSchedule(schedule, now);
+      }
+    } catch (error) {
+      console.error('Error running scheduled deployments:', error);
+    }
+  }
+
+  // Queue a redeployment for a schedule. A deployment already queued, building or
+  // awaiting approval for the app is left alone, rather than cancelled like a manual
+  // deploy would.
+  private runSchedule(schedule: any, now: Date) {
+    if ((dbHelpers.getActiveQueueItems(schedule.app_name) as any[]).length > 0
+      || (dbHelpers.getAwaitingApprovalItems(schedule.app_name) as any[]).length > 0) {
+      this.finishRun(schedule, now, { last_status: 'skipped', last_queue_id: null, last_error: `A deployment of ${schedule.app_name} was already queued, building or awaiting approval` });
+      return;
+    }
+
+    // Advance before queueing, so a slow queue never sees the same run twice
+    this.finishRun(schedule, now, { last_status: 'queued', last_queue_id: null, last_error: null });
+
+    DeploymentManager.redeploy(schedule.app_name, schedule.ref || undefined)
+      .then(({ queueId }) => {
+        dbHelpers.updateDeploySchedule(schedule.id, { last_queue_id: queueId });
+      })
+      .catch(error => {
+        console.error(`Scheduled deployment ${schedule.id} of ${schedule.app_name} failed to queue:`, error);
+        dbHelpers.updateDeploySchedule(schedule.id, {
+          last_status: 'failed',
+          last_error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }
+
+  // Record the outcome of a run and move the schedule to its next run. One-off
+  // schedules and cron expressions that became invalid are disabled.
+  private finishRun(schedule: any, now: Date, outcome: { last_status: string; last_queue_id: number | null; last_error: string | null }) {
+    let nextRunAt: string | null = null;
+    if (schedule.cron) {
+      try {
+        nextRunAt = getNextCronRun(parseCron(schedule.cron), now)?.toISOString() || null;
+      } catch (error) {
+        outcome.last_error = error instanceof Error ? error.message : 'Invalid cron expression';
+      }
+    }
+
+    dbHelpers.updateDeploySchedule(schedule.id, {
+      ...outcome,
+      last_run_at: now.toISOString(),
+      next_run_at: nextRunAt,
+      enabled: nextRunAt ? 1 : 0
+    });
+  }
+}
+
+export default new DeploymentScheduler();
@@ -6,7 +6,7 @@ import envManager from './env';
 
 const execAsync = promisify(exec);
 
-export type Runtime = 'node' | 'python' | 'bun';
+export type Runtime = 'node' | 'python' | 'bun' | 'static'; // Static apps are served by Caddy and have no service
 
 export interface SystemctlProcess {
   name: string;
@@ -71,24 +71,43 @@ class SystemctlManager {
     runtime?: Runtime;
     description?: string;
     user?: string;
+    serviceName?: string; // Unit name without the liteshift- prefix, defaults to the app name
+    port?: number; // Overrides PORT from the app's env file for this unit only
+    virtualenv?: string; // Python virtualenv the start command runs from
   }): Promise<void> {
     const {
       scriptPath,
       cwd = process.cwd(),
       runtime = 'node',
       description = `LiteShift app: ${appName}`,
-      user = 'root'
+      user = 'root',
+      port,
+      virtualenv
     } = options;
 
-    const serviceName = `liteshift-${appName}.service`;
+    const unitName = options.serviceName || appName;
+    const serviceName = `liteshift-${unitName}.service`;
     const servicePath = path.join(this.servicesDirectory, serviceName);
 
-    // Get the correct interpreter based on runtime
-    const interpreter = this.getInterpreter(runtime);
+    // systemd does not search the unit's PATH, so resolve the executable up front
+    const execStart = await this.resolveExecStart(scriptPath, runtime, virtualenv);
 
     // Get environment file path
     const envFilePath = envManager.getAppEnvFilePath(appName);
 
+    // Env files listed later win, so per-unit overrides go after the app's env file
+    let environmentFiles = `EnvironmentFile=${envFilePath}`;
+    if (port) {
+      const overrideFilePath = await envManager.writeOverrideEnvFile(unitName, { PORT: port.toString() });
+      environmentFiles += `\nEnvironmentFile=${overrideFilePath}`;
+    }
+
+    // Processes started by the app pick up the virtualenv too
+    let environment = '';
+    if (runtime === 'python' && virtualenv) {
+      environment = `Environment=VIRTUAL_ENV=${virtualenv}\nEnvironment=PATH=${path.join(virtualenv, 'bin')}:/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin\n`;
+    }
+
     // Create systemd service content
     const serviceContent = `[Unit]
 Description=${description}
@@ -100,13 +119,13 @@ Type=simple
 User=${user}
 Group=${user}
 WorkingDirectory=${cwd}
-ExecStart=${scriptPath}
-EnvironmentFile=${envFilePath}
+ExecStart=${execStart}
+${environment}${environmentFiles}
 Restart=always
 RestartSec=10
 StandardOutput=journal
 StandardError=journal
-SyslogIdentifier=liteshift-${appName}
+SyslogIdentifier=liteshift-${unitName}
 
 [Install]
 WantedBy=multi-user.target
@@ -385,10 +404,10 @@ WantedBy=multi-user.target
   }
 
   // Private helper methods
-  private getInterpreter(runtime: Runtime): string {
+  private getInterpreter(runtime: Runtime, virtualenv?: string): string {
     switch (runtime) {
       case 'python':
-        return '/usr/bin/python3';
+        return virtualenv ? path.join(virtualenv, 'bin', 'python') : '/usr/bin/python3';
       case 'bun':
         return '/root/.bun/bin/bun';
       case 'node':
@@ -397,6 +416,33 @@ WantedBy=multi-user.target
     }
   }
 
+  // Point the start command's executable at the virtualenv of python apps,
+  // e.g. `gunicorn app:app` runs `<venv>/bin/gunicorn` and `python main.py` its interpreter
+  private async resolveExecStart(scriptPath: string, runtime: Runtime, virtualenv?: string): Promise<string> {
+    if (runtime !== 'python' || !virtualenv) {
+      return scriptPath;
+    }
+
+    const command = scriptPath.trim();
+    const executable = command.split(/\s+/)[0];
+    if (!executable || executable.includes('/')) {
+      return scriptPath;
+    }
+
+    const resolved = /^python3?$/.test(executable)
+      ? this.getInterpreter(runtime, virtualenv)
+      : path.join(virtualenv, 'bin', executable);
+
+    try {
+      await fs.access(resolved);
+    } catch {
+      // Not installed in the virtualenv, let systemd find it on the system
+      return scriptPath;
+    }
+
+    return resolved + command.slice(executable.length);
+  }
+
   private detectRuntime(execStart: string): Runtime {
     if (execStart.includes('python')) return 'python';
     if (execStart.includes('bun')) return 'bun';
@@ -0,0 +1,201 @@
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { dbHelpers } from './db';
+import type { DeploymentOptions } from './deployment';
+
+// Largest chunk accepted, below Socket.IO's default 1 MB message limit
+export const MAX_CHUNK_BYTES = 512 * 1024;
+
+// Uploads that received nothing for this long are removed
+const UPLOAD_SESSION_TTL_HOURS = 24;
+
+export interface UploadSession {
+  id: string;
+  app_name: string;
+  options: string; // JSON of the deployment options to queue once the upload is complete
+  size: number;
+  received: number;
+  created_at: string;
+  updated_at: string;
+}
+
+class UploadManager {
+  private uploadsDirectory: string;
+  private writing: Set<string> = new Set();
+
+  constructor() {
+    const appsDirectory = dbHelpers.getSetting('apps_directory') || '/var/www/apps';
+    // Next to the queue's temporary files, so a finished upload can be moved there
+    this.uploadsDirectory = path.join(appsDirectory, '.temp', 'uploads');
+  }
+
+  /**
+   * Get the path of the file an upload is assembled in
+   */
+  getUploadPath(uploadId: string): string {
+    return path.join(this.uploadsDirectory, `${uploadId}.part`);
+  }
+
+  /**
+   * Largest upload accepted, from the `upload_max_size_mb` setting
+   */
+  getMaxSize(): number {
+    return (parseInt(dbHelpers.getSetting('upload_max_size_mb') || '1024', 10) || 1024) * 1024 * 1024;
+  }
+
+  /**
+   * Start an upload of `size` bytes for a file deployment
+   */
+  async startUpload(options: Omit<DeploymentOptions, 'filePath'>, size: number): Promise<UploadSession> {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error('size must be a positive integer');
+    }
+    if (size > this.getMaxSize()) {
+      throw new Error(`Upload is larger than ${Math.floor(this.getMaxSize() / 1024 / 1024)} MB`);
+    }
+
+    await this.cleanupExpired();
+
+    // The session exists before its file, so cleanup never takes the file for an orphan
+    const uploadId = crypto.randomUUID();
+    dbHelpers.createUploadSession(uploadId, options.appName, JSON.stringify(options), size);
+    await fs.mkdir(this.uploadsDirectory, { recursive: true });
+    await fs.writeFile(this.getUploadPath(uploadId), '', { mode: 0o600 });
+
+    return dbHelpers.getUploadSession(uploadId) as UploadSession;
+  }
+
+  /**
+   * Get an upload session, throwing if it does not exist
+   */
+  getUpload(uploadId: string): UploadSession {
+    const session = dbHelpers.getUploadSession(uploadId) as UploadSession | undefined;
+    if (!session) {
+      throw new Error(`Upload ${uploadId} not found`);
+    }
+    return session;
+  }
+
+  /**
+   * Write a chunk at a byte offset. Chunks may repeat bytes already received, when
+   * resending after a dropped connection, but may not leave a gap.
+   */
+  async writeChunk(uploadId: string, offset: number, data: Buffer): Promise<UploadSession> {
+    const session = this.getUpload(uploadId);
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error('offset must be a non-negative integer');
+    }
+    if (data.length === 0 || data.length > MAX_CHUNK_BYTES) {
+      throw new Error(`Chunks must be between 1 and ${MAX_CHUNK_BYTES} bytes`);
+    }
+    if (offset > session.received) {
+      throw new Error(`Chunk at offset ${offset} leaves a gap, ${session.received} bytes received so far`);
+    }
+    if (offset + data.length > session.size) {
+      throw new Error(`Chunk ends past the declared size of ${session.size} bytes`);
+    }
+    if (this.writing.has(uploadId)) {
+      throw new Error('A chunk of this upload is already being written, send chunks one at a time');
+    }
+
+    this.writing.add(uploadId);
+    try {
+      const handle = await fs.open(this.getUploadPath(uploadId), 'r+');
+      try {
+        await handle.write(data, 0, data.length, offset);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      throw new Error(`Failed to write chunk: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.writing.delete(uploadId);
+    }
+
+    const received = Math.max(session.received, offset + data.length);
+    dbHelpers.updateUploadSessionReceived(uploadId, received);
+    return { ...session, received };
+  }
+
+  /**
+   * Check a complete upload against its SHA-256 and hand over the assembled file,
+   * moved out of the uploads directory. The session ends either way, a mismatching
+   * upload has to start over.
+   */
+  async finishUpload(uploadId: string, sha256: string): Promise<{ session: UploadSession; filePath: string }> {
+    const session = this.getUpload(uploadId);
+
+    if (session.received < session.size) {
+      throw new Error(`Upload is incomplete, ${session.received} of ${session.size} bytes received`);
+    }
+    if (!/^[0-9a-f]{64}$/i.test(sha256 || '')) {
+      throw new Error('sha256 must be a hex encoded SHA-256 digest');
+    }
+    if (this.writing.has(uploadId)) {
+      throw new Error('Upload is still being written');
+    }
+
+    const filePath = this.getUploadPath(uploadId);
+    let digest: string;
+    this.writing.add(uploadId);
+    try {
+      digest = await this.hashFile(filePath);
+    } finally {
+      this.writing.delete(uploadId);
+    }
+    dbHelpers.deleteUploadSession(uploadId);
+
+    if (digest !== sha256.toLowerCase()) {
+      await fs.rm(filePath, { force: true });
+      throw new Error(`SHA-256 mismatch, expected ${sha256.toLowerCase()} but the upload hashes to ${digest}`);
+    }
+
+    const stagedPath = path.join(path.dirname(this.uploadsDirectory), `staged_${uploadId}.zip`);
+    await fs.rename(filePath, stagedPath);
+    return { session, filePath: stagedPath };
+  }
+
+  /**
+   * Remove sessions idle for longer than the TTL, and files without a session
+   */
+  async cleanupExpired(): Promise<number> {
+    const cutoff = Date.now() - UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const session of dbHelpers.getAllUploadSessions() as UploadSession[]) {
+      // SQLite timestamps are UTC without a zone
+      if (new Date(`${session.updated_at.replace(' ', 'T')}Z`).getTime() < cutoff && !this.writing.has(session.id)) {
+        dbHelpers.deleteUploadSession(session.id);
+        removed++;
+      }
+    }
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.uploadsDirectory);
+    } catch {
+      return removed;
+    }
+
+    for (const entry of entries) {
+      if (dbHelpers.getUploadSession(path.basename(entry, '.part'))) continue;
+      await fs.rm(path.join(this.uploadsDirectory, entry), { force: true });
+    }
+
+    return removed;
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+}
+
+export default new UploadManager();
@@ -1,4 +1,5 @@
-
+import path from 'path';
+import type { Socket } from 'socket.io';
 
 export function formatTime(seconds: number) {
     const days = Math.floor(seconds / (3600 * 24));
@@ -38,4 +39,33 @@ export function formatUptime(uptime: number): string {
   } else {
     return `${seconds}s`;
   }
-}
\ No newline at end of file
+}
+
+// Whether a user supplied path stays inside the directory it is relative to.
+// Whitespace is rejected too, since these paths end up in the Caddyfile and systemd units.
+export function isSafeRelativePath(relativePath: string): boolean {
+  if (!relativePath || path.isAbsolute(relativePath) || /\s/.test(relativePath)) {
+    return false;
+  }
+  const normalized = path.normalize(relativePath);
+  return normalized !== '..' && !normalized.startsWith(`..${path.sep}`);
+}
+
+// Whether a user supplied commit SHA, tag or branch name can be passed to git as is.
+// Git would read one starting with a dash as an option.
+export function isSafeGitRef(ref: string): boolean {
+  return !!ref && !ref.startsWith('-') && !/[\s\x00-\x1f\x7f]/.test(ref);
+}
+
+// Answers the callback with an error unless the socket belongs to an admin.
+// Approvals, freeze windows and the approval requirement of apps are for admins only.
+export function requireAdmin(socket: Socket, callback: (response: any) => void): boolean {
+  if (socket.data.user?.role !== 'admin') {
+    callback({
+      success: false,
+      error: 'Only admins can do this'
+    });
+    return false;
+  }
+  return true;
+}
@@ -2,20 +2,34 @@ import type { Server, Socket } from "socket.io";
 import { dbHelpers } from "../lib/db";
 import DeploymentManager from "../lib/deployment";
 import envManager from "../lib/env";
+import CaddyManager from "../lib/caddy";
+import deployKeyManager from "../lib/keys";
+import credentialManager from "../lib/credentials";
+import { isSafeRelativePath, requireAdmin } from "../lib/utils";
 import crypto from "crypto";
 
 // Create a new app
-const createApp = async (data: {
+const createApp = (socket: Socket) => async (data: {
   name: string;
   repository?: string;
   branch?: string;
   buildCommand?: string;
   installCommand?: string;
-  startCommand: string;
-  runtime?: 'node' | 'python' | 'bun';
+  startCommand?: string; // Detected on deployment when not given
+  runtime?: 'node' | 'python' | 'bun' | 'static';
   envVars?: Record<string, string>;
   autoDeploy?: boolean; // Whether to automatically queue for deployment
   port?: number; // Optional port, will auto-generate if not provided
+  outputDirectory?: string; // Static runtime only, detected after the build when not given
+  spaFallback?: boolean; // Static runtime only, serve index.html for unknown paths
+  rootDirectory?: string; // Subdirectory of the repository the app lives in
+  gitSubmodules?: boolean; // Check out submodules recursively
+  gitLfs?: boolean; // Fetch Git LFS objects after checkout
+  cloneDepth?: number; // Shallow clone with this many commits, full history when not given
+  preDeployCommand?: string; // Runs after the build, before the new release takes traffic
+  postDeployCommand?: string; // Runs once the new release takes traffic
+  postDeployFailOnError?: boolean; // Fail the deployment when the post-deploy command fails
+  requiresApproval?: boolean; // Hold every deployment until an admin approves it
 }, callback: (response: any) => void) => {
   try {
     const {
@@ -24,17 +38,62 @@ const createApp = async (data: {
       branch = 'main',
       startCommand,
       buildCommand,
-      installCommand = 'npm install',
-      runtime = 'node',
+      installCommand,
+      runtime,
       envVars = {},
       autoDeploy = false,
-      port
+      port,
+      outputDirectory,
+      spaFallback = false,
+      rootDirectory,
+      gitSubmodules = false,
+      gitLfs = false,
+      cloneDepth,
+      preDeployCommand,
+      postDeployCommand,
+      postDeployFailOnError = false,
+      requiresApproval = false
     } = data;
 
-    if (!name || !startCommand) {
+    if (!name) {
+      callback({
+        success: false,
+        error: 'name is required'
+      });
+      return;
+    }
+
+    // Off is the default, so only turning approvals on is a change
+    if (requiresApproval && !requireAdmin(socket, callback)) return;
+
+    if (outputDirectory !== undefined && !isSafeRelativePath(outputDirectory)) {
+      callback({
+        success: false,
+        error: 'outputDirectory must be a relative path inside the project'
+      });
+      return;
+    }
+
+    if (rootDirectory && !isSafeRelativePath(rootDirectory)) {
+      callback({
+        success: false,
+        error: 'rootDirectory must be a relative path inside the repository'
+      });
+      return;
+    }
+
+    if (cloneDepth !== undefined && cloneDepth !== null && (!Number.isInteger(cloneDepth) || cloneDepth < 1)) {
+      callback({
+        success: false,
+        error: 'cloneDepth must be a positive integer'
+      });
+      return;
+    }
+
+    if (repository && credentialManager.hasEmbeddedCredentials(repository)) {
       callback({
         success: false,
-        error: 'name and startCommand are required'
+        error: 'Repository URLs must not contain credentials, store the token with credential:create instead'
       });
       return;
     }
@@ -53,7 +112,8 @@ const createApp = async (data: {
     const appsDirectory = dbHelpers.getSetting('apps_directory') || '/var/www/apps';
     const deployPath = `${appsDirectory}/${name}`;
 
-    const appPort = port || dbHelpers.generateUniquePort();
+    // Static apps are served by Caddy and need no port
+    const appPort = runtime === 'static' ? null : port || dbHelpers.generateUniquePort();
 
     // Create app in database
     const result = dbHelpers.createApp({
@@ -61,21 +121,35 @@ const createApp = async (data: {
       repository_url: repository || null,
       branch,
       deploy_path: deployPath,
-      start_command: startCommand,
+      start_command: startCommand || '',
       build_command: buildCommand || null,
       install_command: installCommand,
       runtime,
       status: 'stopped',
-      port: appPort
+      port: appPort,
+      detected_fields: DeploymentManager.getUnsetFields({ runtime, installCommand, buildCommand, startCommand })
     });
 
     const appId = result.lastInsertRowid as number;
 
+    if (outputDirectory || spaFallback || rootDirectory || gitSubmodules || gitLfs || cloneDepth
+      || preDeployCommand || postDeployCommand || postDeployFailOnError || requiresApproval) {
+      dbHelpers.updateApp(appId, {
+        output_directory: outputDirectory || null,
+        spa_fallback: spaFallback ? 1 : 0,
+        root_directory: rootDirectory || null,
+        git_submodules: gitSubmodules ? 1 : 0,
+        git_lfs: gitLfs ? 1 : 0,
+        clone_depth: cloneDepth || null,
+        pre_deploy_command: preDeployCommand || null,
+        post_deploy_command: postDeployCommand || null,
+        post_deploy_fail_on_error: postDeployFailOnError ? 1 : 0,
+        requires_approval: requiresApproval ? 1 : 0
+      });
+    }
+
     // Set PORT environment variable along with other env vars
-    const finalEnvVars = {
-      ...envVars,
-      PORT: appPort.toString()
-    };
+    const finalEnvVars: Record<string, string> = appPort ? { ...envVars, PORT: appPort.toString() } : envVars;
 
     // Set environment variables if provided
     if (Object.keys(finalEnvVars).length > 0) {
@@ -123,16 +197,26 @@ const createApp = async (data: {
           repository: repository || null,
           branch,
           build_command: buildCommand || null,
-          install_command: installCommand,
-          start_command: startCommand,
-          runtime,
+          install_command: installCommand || null,
+          start_command: startCommand || null,
+          runtime: runtime || 'node',
           port: appPort,
+          output_directory: outputDirectory || null,
+          spa_fallback: spaFallback,
+          root_directory: rootDirectory || null,
+          git_submodules: gitSubmodules,
+          git_lfs: gitLfs,
+          clone_depth: cloneDepth || null,
+          pre_deploy_command: preDeployCommand || null,
+          post_deploy_command: postDeployCommand || null,
+          post_deploy_fail_on_error: postDeployFailOnError,
+          requires_approval: requiresApproval,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         },
         queueId
       },
-      message: `App '${name}' created successfully on port ${appPort}${queueId ? ' and queued for deployment' : ''}`
+      message: `App '${name}' created successfully${appPort ? ` on port ${appPort}` : ''}${queueId ? ' and queued for deployment' : ''}`
     });
   } catch (error) {
     console.error('Create app error:', error);
@@ -194,6 +278,30 @@ const getAppByName = async (data: { appName: string }, callback: (response: any)
           start_command: app.start_command,
           runtime: app.runtime,
           port: app.port,
+          health_check_type: app.health_check_type,
+          health_check_path: app.health_check_path,
+          health_check_timeout: app.health_check_timeout,
+          health_check_retries: app.health_check_retries,
+          health_check_interval: app.health_check_interval,
+          health_check_expected_status: app.health_check_expected_status,
+          deployment_strategy: app.deployment_strategy,
+          active_slot: app.active_slot,
+          green_port: app.green_port,
+          output_directory: app.output_directory,
+          spa_fallback: !!app.spa_fallback,
+          root_directory: app.root_directory,
+          git_submodules: !!app.git_submodules,
+          git_lfs: !!app.git_lfs,
+          clone_depth: app.clone_depth,
+          pre_deploy_command: app.pre_deploy_command,
+          post_deploy_command: app.post_deploy_command,
+          post_deploy_fail_on_error: !!app.post_deploy_fail_on_error,
+          install_timeout: app.install_timeout,
+          build_timeout: app.build_timeout,
+          pre_deploy_timeout: app.pre_deploy_timeout,
+          post_deploy_timeout: app.post_deploy_timeout,
+          requires_approval: !!app.requires_approval,
+          detected_fields: app.detected_fields ? JSON.parse(app.detected_fields) : [],
           webhook_token: app.webhook_token,
           latest_commit_hash: app.latest_commit_hash,
           latest_commit_message: app.latest_commit_message,
@@ -212,15 +320,36 @@ const getAppByName = async (data: { appName: string }, callback: (response: any)
 };
 
 // Update app
-const updateApp = async (data: {
+const updateApp = (socket: Socket) => async (data: {
   appName: string;
   repository?: string;
   branch?: string;
   buildCommand?: string;
   installCommand?: string;
   startCommand?: string;
-  runtime?: 'node' | 'python' | 'bun';
+  runtime?: 'node' | 'python' | 'bun' | 'static';
   port?: number;
+  healthCheckType?: 'none' | 'http' | 'tcp';
+  healthCheckPath?: string;
+  healthCheckTimeout?: number;
+  healthCheckRetries?: number;
+  healthCheckInterval?: number;
+  healthCheckExpectedStatus?: number;
+  deploymentStrategy?: 'restart' | 'blue-green';
+  outputDirectory?: string;
+  spaFallback?: boolean;
+  rootDirectory?: string;
+  gitSubmodules?: boolean;
+  gitLfs?: boolean;
+  cloneDepth?: number | null; // null for full history
+  preDeployCommand?: string;
+  postDeployCommand?: string;
+  postDeployFailOnError?: boolean;
+  installTimeout?: number | null; // Seconds, 0 for no limit, null for the deploy_step_timeout setting
+  buildTimeout?: number | null;
+  preDeployTimeout?: number | null;
+  postDeployTimeout?: number | null;
+  requiresApproval?: boolean;
 }, callback: (response: any) => void) => {
   try {
     const { appName, ...updates } = data;
@@ -241,6 +370,9 @@ const updateApp = async (data: {
       return;
     }
 
+    if (updates.requiresApproval !== undefined && !!updates.requiresApproval !== !!app.requires_approval
+      && !requireAdmin(socket, callback)) return;
+
     // Map frontend parameter names to database column names
     const dbUpdates: any = {};
     if (updates.repository !== undefined) dbUpdates.repository_url = updates.repository;
@@ -250,6 +382,84 @@ const updateApp = async (data: {
     if (updates.startCommand !== undefined) dbUpdates.start_command = updates.startCommand;
     if (updates.runtime !== undefined) dbUpdates.runtime = updates.runtime;
     if (updates.port !== undefined) dbUpdates.port = updates.port;
+    if (updates.healthCheckType !== undefined) dbUpdates.health_check_type = updates.healthCheckType;
+    if (updates.healthCheckPath !== undefined) dbUpdates.health_check_path = updates.healthCheckPath;
+    if (updates.healthCheckTimeout !== undefined) dbUpdates.health_check_timeout = updates.healthCheckTimeout;
+    if (updates.healthCheckRetries !== undefined) dbUpdates.health_check_retries = updates.healthCheckRetries;
+    if (updates.healthCheckInterval !== undefined) dbUpdates.health_check_interval = updates.healthCheckInterval;
+    if (updates.healthCheckExpectedStatus !== undefined) dbUpdates.health_check_expected_status = updates.healthCheckExpectedStatus;
+    if (updates.deploymentStrategy !== undefined) dbUpdates.deployment_strategy = updates.deploymentStrategy;
+    if (updates.outputDirectory !== undefined) dbUpdates.output_directory = updates.outputDirectory || null;
+    if (updates.spaFallback !== undefined) dbUpdates.spa_fallback = updates.spaFallback ? 1 : 0;
+    if (updates.rootDirectory !== undefined) dbUpdates.root_directory = updates.rootDirectory || null;
+    if (updates.gitSubmodules !== undefined) dbUpdates.git_submodules = updates.gitSubmodules ? 1 : 0;
+    if (updates.gitLfs !== undefined) dbUpdates.git_lfs = updates.gitLfs ? 1 : 0;
+    if (updates.cloneDepth !== undefined) dbUpdates.clone_depth = updates.cloneDepth || null;
+    if (updates.preDeployCommand !== undefined) dbUpdates.pre_deploy_command = updates.preDeployCommand || null;
+    if (updates.postDeployCommand !== undefined) dbUpdates.post_deploy_command = updates.postDeployCommand || null;
+    if (updates.postDeployFailOnError !== undefined) dbUpdates.post_deploy_fail_on_error = updates.postDeployFailOnError ? 1 : 0;
+    if (updates.installTimeout !== undefined) dbUpdates.install_timeout = updates.installTimeout;
+    if (updates.buildTimeout !== undefined) dbUpdates.build_timeout = updates.buildTimeout;
+    if (updates.preDeployTimeout !== undefined) dbUpdates.pre_deploy_timeout = updates.preDeployTimeout;
+    if (updates.postDeployTimeout !== undefined) dbUpdates.post_deploy_timeout = updates.postDeployTimeout;
+    if (updates.requiresApproval !== undefined) dbUpdates.requires_approval = updates.requiresApproval ? 1 : 0;
+
+    if (updates.healthCheckType !== undefined && !['none', 'http', 'tcp'].includes(updates.healthCheckType)) {
+      callback({
+        success: false,
+        error: "healthCheckType must be 'none', 'http' or 'tcp'"
+      });
+      return;
+    }
+
+    if (updates.deploymentStrategy !== undefined && !['restart', 'blue-green'].includes(updates.deploymentStrategy)) {
+      callback({
+        success: false,
+        error: "deploymentStrategy must be 'restart' or 'blue-green'"
+      });
+      return;
+    }
+
+    if (updates.outputDirectory && !isSafeRelativePath(updates.outputDirectory)) {
+      callback({
+        success: false,
+        error: 'outputDirectory must be a relative path inside the project'
+      });
+      return;
+    }
+
+    if (updates.rootDirectory && !isSafeRelativePath(updates.rootDirectory)) {
+      callback({
+        success: false,
+        error: 'rootDirectory must be a relative path inside the repository'
+      });
+      return;
+    }
+
+    if (updates.cloneDepth !== undefined && updates.cloneDepth !== null && (!Number.isInteger(updates.cloneDepth) || updates.cloneDepth < 1)) {
+      callback({
+        success: false,
+        error: 'cloneDepth must be a positive integer'
+      });
+      return;
+    }
+
+    const timeouts = [updates.installTimeout, updates.buildTimeout, updates.preDeployTimeout, updates.postDeployTimeout];
+    if (timeouts.some(timeout => timeout !== undefined && timeout !== null && (!Number.isInteger(timeout) || timeout < 0))) {
+      callback({
+        success: false,
+        error: 'Step timeouts must be a number of seconds, 0 for no limit'
+      });
+      return;
+    }
+
+    if (updates.repository && credentialManager.hasEmbeddedCredentials(updates.repository)) {
+      callback({
+        success: false,
+        error: 'Repository URLs must not contain credentials, store the token with credential:create instead'
+      });
+      return;
+    }
 
     if (Object.keys(dbUpdates).length === 0) {
       callback({
@@ -259,6 +469,19 @@ const updateApp = async (data: {
       return;
     }
 
+    // Settings set here are the user's from now on, cleared ones are detected again on the next deployment
+    const detectedFields = new Set<string>(app.detected_fields ? JSON.parse(app.detected_fields) : []);
+    for (const column of ['runtime', 'install_command', 'build_command', 'start_command', 'output_directory']) {
+      if (dbUpdates[column] === undefined) continue;
+      if (dbUpdates[column]) {
+        detectedFields.delete(column);
+      } else {
+        detectedFields.add(column);
+      }
+    }
+    dbUpdates.detected_fields = detectedFields.size > 0 ? JSON.stringify([...detectedFields]) : null;
+    if (dbUpdates.start_command === null) dbUpdates.start_command = '';
+
     // If port is being updated, also update the PORT environment variable
     if (updates.port !== undefined) {
       dbHelpers.setAppEnvVar(app.id, 'PORT', updates.port.toString());
@@ -275,6 +498,16 @@ const updateApp = async (data: {
       }
     }
 
+    // Static sites are configured in the Caddyfile
+    if (app.runtime === 'static' && (updates.outputDirectory !== undefined || updates.spaFallback !== undefined || updates.rootDirectory !== undefined)) {
+      try {
+        await CaddyManager.writeCaddyfile();
+        await CaddyManager.reloadCaddy();
+      } catch (error) {
+        console.error(`Failed to update Caddy configuration for ${appName}:`, error);
+      }
+    }
+
     // Get updated app data
     const updatedApp = dbHelpers.getAppByName(appName) as any;
     
@@ -291,6 +524,30 @@ const updateApp = async (data: {
           start_command: updatedApp.start_command,
           runtime: updatedApp.runtime,
           port: updatedApp.port,
+          health_check_type: updatedApp.health_check_type,
+          health_check_path: updatedApp.health_check_path,
+          health_check_timeout: updatedApp.health_check_timeout,
+          health_check_retries: updatedApp.health_check_retries,
+          health_check_interval: updatedApp.health_check_interval,
+          health_check_expected_status: updatedApp.health_check_expected_status,
+          deployment_strategy: updatedApp.deployment_strategy,
+          active_slot: updatedApp.active_slot,
+          green_port: updatedApp.green_port,
+          output_directory: updatedApp.output_directory,
+          spa_fallback: !!updatedApp.spa_fallback,
+          root_directory: updatedApp.root_directory,
+          git_submodules: !!updatedApp.git_submodules,
+          git_lfs: !!updatedApp.git_lfs,
+          clone_depth: updatedApp.clone_depth,
+          pre_deploy_command: updatedApp.pre_deploy_command,
+          post_deploy_command: updatedApp.post_deploy_command,
+          post_deploy_fail_on_error: !!updatedApp.post_deploy_fail_on_error,
+          install_timeout: updatedApp.install_timeout,
+          build_timeout: updatedApp.build_timeout,
+          pre_deploy_timeout: updatedApp.pre_deploy_timeout,
+          post_deploy_timeout: updatedApp.post_deploy_timeout,
+          requires_approval: !!updatedApp.requires_approval,
+          detected_fields: updatedApp.detected_fields ? JSON.parse(updatedApp.detected_fields) : [],
           created_at: updatedApp.created_at,
           updated_at: updatedApp.updated_at
         }
@@ -802,12 +1059,97 @@ const removeWebhookToken = async (data: { appName: string }, callback: (response
   }
 };
 
+// Generate SSH Deploy Key
+const generateDeployKey = async (data: { appName: string; overwrite?: boolean }, callback: (response: any) => void) => {
+  try {
+    const { appName, overwrite = false } = data;
+    if (!appName) {
+      return callback({ success: false, error: 'appName parameter is required' });
+    }
+
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      return callback({ success: false, error: `App '${appName}' not found` });
+    }
+
+    const publicKey = await deployKeyManager.generateKey(appName, overwrite);
+
+    callback({
+      success: true,
+      data: { public_key: publicKey },
+      message: `Deploy key generated successfully for ${appName}`
+    });
+  } catch (error) {
+    console.error('Generate deploy key error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Get SSH Deploy Key
+const getDeployKey = async (data: { appName: string }, callback: (response: any) => void) => {
+  try {
+    const { appName } = data;
+    if (!appName) {
+      return callback({ success: false, error: 'appName parameter is required' });
+    }
+
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      return callback({ success: false, error: `App '${appName}' not found` });
+    }
+
+    const publicKey = await deployKeyManager.getPublicKey(appName);
+
+    callback({
+      success: true,
+      data: { public_key: publicKey }
+    });
+  } catch (error) {
+    console.error('Get deploy key error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Remove SSH Deploy Key
+const removeDeployKey = async (data: { appName: string }, callback: (response: any) => void) => {
+  try {
+    const { appName } = data;
+    if (!appName) {
+      return callback({ success: false, error: 'appName parameter is required' });
+    }
+
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (!app) {
+      return callback({ success: false, error: `App '${appName}' not found` });
+    }
+
+    await deployKeyManager.deleteKey(appName);
+
+    callback({
+      success: true,
+      message: `Deploy key removed successfully for ${appName}`
+    });
+  } catch (error) {
+    console.error('Remove deploy key error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
 export default (server: Server, socket: Socket) => {
   // App management
-  socket.on("app:create", createApp);
+  socket.on("app:create", createApp(socket));
   socket.on("app:list", getAllApps);
   socket.on("app:get", getAppByName);
-  socket.on("app:update", updateApp);
+  socket.on("app:update", updateApp(socket));
   socket.on("app:delete", deleteApp);
   
   // App details
@@ -827,4 +1169,9 @@ export default (server: Server, socket: Socket) => {
   // Webhooks
   socket.on("app:webhook:generate", generateWebhookToken);
   socket.on("app:webhook:remove", removeWebhookToken);
+
+  // SSH deploy keys
+  socket.on("app:deploy-key:generate", generateDeployKey);
+  socket.on("app:deploy-key:get", getDeployKey);
+  socket.on("app:deploy-key:remove", removeDeployKey);
 };
@@ -0,0 +1,155 @@
+import type { Server, Socket } from "socket.io";
+import credentialManager from "../lib/credentials";
+import { dbHelpers } from "../lib/db";
+
+// Shape of a credential in responses, the token itself is never sent back
+const formatCredential = (credential: any) => {
+  let tokenHint: string | null;
+  try {
+    tokenHint = credentialManager.maskToken(credentialManager.decrypt(credential.token_encrypted));
+  } catch {
+    tokenHint = null;
+  }
+
+  return {
+    id: credential.id,
+    app_name: credential.app_name || null,
+    shared: credential.app_id === null,
+    host: credential.host,
+    username: credential.username,
+    token_hint: tokenHint,
+    created_at: credential.created_at,
+    updated_at: credential.updated_at
+  };
+};
+
+// Store a Git credential
+const createCredential = async (data: {
+  appName?: string; // Shared by all apps when not given
+  host: string;
+  username?: string;
+  token: string;
+}, callback: (response: any) => void) => {
+  try {
+    const { appName, host, username = 'x-access-token', token } = data;
+    if (!host || !token) {
+      return callback({ success: false, error: 'host and token are required' });
+    }
+
+    let appId: number | null = null;
+    if (appName) {
+      const app = dbHelpers.getAppByName(appName) as any;
+      if (!app) {
+        return callback({ success: false, error: `App '${appName}' not found` });
+      }
+      appId = app.id;
+    }
+
+    const id = credentialManager.createCredential(appId, host, username, token);
+    const credential = dbHelpers.getGitCredential(id);
+
+    callback({
+      success: true,
+      data: formatCredential(credential),
+      message: `Credential for ${host} stored successfully`
+    });
+  } catch (error) {
+    console.error('Create credential error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// List Git credentials, all of them or the ones an app can use
+const getCredentials = async (data: { appName?: string }, callback: (response: any) => void) => {
+  try {
+    const { appName } = data || {};
+
+    let appId: number | undefined;
+    if (appName) {
+      const app = dbHelpers.getAppByName(appName) as any;
+      if (!app) {
+        return callback({ success: false, error: `App '${appName}' not found` });
+      }
+      appId = app.id;
+    }
+
+    const credentials = dbHelpers.getGitCredentials(appId);
+
+    callback({
+      success: true,
+      data: credentials.map(formatCredential)
+    });
+  } catch (error) {
+    console.error('Get credentials error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Replace the token of a Git credential
+const rotateCredential = async (data: { id: number; token: string; username?: string }, callback: (response: any) => void) => {
+  try {
+    const { id, token, username } = data;
+    if (!id || !token) {
+      return callback({ success: false, error: 'id and token are required' });
+    }
+
+    if (!dbHelpers.getGitCredential(id)) {
+      return callback({ success: false, error: `Credential ${id} not found` });
+    }
+
+    credentialManager.rotateCredential(id, token, username);
+    const credential = dbHelpers.getGitCredential(id);
+
+    callback({
+      success: true,
+      data: formatCredential(credential),
+      message: `Credential ${id} rotated successfully`
+    });
+  } catch (error) {
+    console.error('Rotate credential error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Delete a Git credential
+const deleteCredential = async (data: { id: number }, callback: (response: any) => void) => {
+  try {
+    const { id } = data;
+    if (!id) {
+      return callback({ success: false, error: 'id is required' });
+    }
+
+    if (!dbHelpers.getGitCredential(id)) {
+      return callback({ success: false, error: `Credential ${id} not found` });
+    }
+
+    dbHelpers.deleteGitCredential(id);
+
+    callback({
+      success: true,
+      message: `Credential ${id} deleted successfully`
+    });
+  } catch (error) {
+    console.error('Delete credential error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+export default (server: Server, socket: Socket) => {
+  socket.on("credential:create", createCredential);
+  socket.on("credential:list", getCredentials);
+  socket.on("credential:rotate", rotateCredential);
+  socket.on("credential:delete", deleteCredential);
+};
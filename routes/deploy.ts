@@ -1,25 +1,56 @@
 import type { Server, Socket } from "socket.io";
 import DeploymentManager from "../lib/deployment";
 import { dbHelpers } from "../lib/db";
+import credentialManager from "../lib/credentials";
+import uploadManager, { MAX_CHUNK_BYTES } from "../lib/uploads";
+import deploymentScheduler from "../lib/scheduler";
+import deployFreezes from "../lib/freezes";
+import { isSafeGitRef, isSafeRelativePath, requireAdmin } from "../lib/utils";
 
 // Deploy from Git repository
 const deployFromGit = async (data: {
   appName: string;
   repository: string;
   branch?: string;
+  ref?: string;
   buildCommand?: string;
   installCommand?: string;
-  startCommand: string;
-  runtime?: 'node' | 'python' | 'bun';
+  startCommand?: string;
+  runtime?: 'node' | 'python' | 'bun' | 'static';
+  rootDirectory?: string;
   envVars?: Record<string, string>;
 }, callback: (response: any) => void) => {
   try {
-    const { appName, repository, branch, buildCommand, installCommand, startCommand, runtime, envVars } = data;
+    const { appName, repository, branch, ref, buildCommand, installCommand, startCommand, runtime, rootDirectory, envVars } = data;
     
-    if (!appName || !repository || !startCommand) {
+    if (!appName || !repository) {
       callback({
         success: false,
-        error: 'appName, repository, and startCommand are required'
+        error: 'appName and repository are required'
+      });
+      return;
+    }
+
+    if (rootDirectory && !isSafeRelativePath(rootDirectory)) {
+      callback({
+        success: false,
+        error: 'rootDirectory must be a relative path inside the repository'
+      });
+      return;
+    }
+
+    if (ref && !isSafeGitRef(ref)) {
+      callback({
+        success: false,
+        error: 'ref must be a commit SHA, tag or branch name and cannot start with -'
+      });
+      return;
+    }
+
+    if (credentialManager.hasEmbeddedCredentials(repository)) {
+      callback({
+        success: false,
+        error: 'Repository URLs must not contain credentials, store the token with credential:create instead'
       });
       return;
     }
@@ -28,10 +59,12 @@ const deployFromGit = async (data: {
       appName,
       repository,
       branch,
+      ref,
       buildCommand,
       installCommand,
       startCommand,
       runtime,
+      rootDirectory,
       envVars
     });
 
@@ -51,20 +84,20 @@ const deployFromGit = async (data: {
 // Deploy from file upload
 const deployFromFile = async (data: {
   appName: string;
-  startCommand: string;
+  startCommand?: string;
   buildCommand?: string;
   installCommand?: string;
-  runtime?: 'node' | 'python' | 'bun';
+  runtime?: 'node' | 'python' | 'bun' | 'static';
   envVars?: Record<string, string>;
   fileBuffer: Buffer;
 }, callback: (response: any) => void) => {
   try {
     const { appName, startCommand, buildCommand, installCommand, runtime, envVars, fileBuffer } = data;
     
-    if (!appName || !startCommand || !fileBuffer) {
+    if (!appName || !fileBuffer) {
       callback({
         success: false,
-        error: 'appName, startCommand, and fileBuffer are required'
+        error: 'appName and fileBuffer are required'
       });
       return;
     }
@@ -91,10 +124,144 @@ const deployFromFile = async (data: {
   }
 };
 
+// Shape of an upload session in responses
+const formatUpload = (session: any) => ({
+  uploadId: session.id,
+  appName: session.app_name,
+  size: session.size,
+  received: session.received,
+  chunkSize: MAX_CHUNK_BYTES
+});
+
+// Start a chunked upload of an archive to deploy
+const startUpload = async (data: {
+  appName: string;
+  size: number; // Size of the archive in bytes
+  startCommand?: string;
+  buildCommand?: string;
+  installCommand?: string;
+  runtime?: 'node' | 'python' | 'bun' | 'static';
+  envVars?: Record<string, string>;
+}, callback: (response: any) => void) => {
+  try {
+    const { appName, size, startCommand, buildCommand, installCommand, runtime, envVars } = data;
+
+    if (!appName || !size) {
+      callback({
+        success: false,
+        error: 'appName and size are required'
+      });
+      return;
+    }
+
+    const session = await uploadManager.startUpload({
+      appName,
+      startCommand,
+      buildCommand,
+      installCommand,
+      runtime,
+      envVars
+    }, size);
+
+    callback({
+      success: true,
+      data: formatUpload(session)
+    });
+  } catch (error) {
+    console.error('Start upload error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Write a chunk of an upload at a byte offset
+const uploadChunk = async (data: { uploadId: string; offset: number; data: Buffer }, callback: (response: any) => void) => {
+  try {
+    const { uploadId, offset, data: chunk } = data;
+
+    if (!uploadId || offset === undefined || !chunk) {
+      callback({
+        success: false,
+        error: 'uploadId, offset and data are required'
+      });
+      return;
+    }
+
+    const session = await uploadManager.writeChunk(uploadId, offset, Buffer.from(chunk));
+    callback({
+      success: true,
+      data: formatUpload(session)
+    });
+  } catch (error) {
+    console.error('Upload chunk error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Get how much of an upload was received, to resume it
+const getUploadStatus = async (data: { uploadId: string }, callback: (response: any) => void) => {
+  try {
+    const { uploadId } = data;
+
+    if (!uploadId) {
+      callback({
+        success: false,
+        error: 'uploadId is required'
+      });
+      return;
+    }
+
+    callback({
+      success: true,
+      data: formatUpload(uploadManager.getUpload(uploadId))
+    });
+  } catch (error) {
+    console.error('Get upload status error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Verify a complete upload and queue its deployment
+const finishUpload = async (data: { uploadId: string; sha256: string }, callback: (response: any) => void) => {
+  try {
+    const { uploadId, sha256 } = data;
+
+    if (!uploadId || !sha256) {
+      callback({
+        success: false,
+        error: 'uploadId and sha256 are required'
+      });
+      return;
+    }
+
+    const { session, filePath } = await uploadManager.finishUpload(uploadId, sha256);
+    const result = await DeploymentManager.deployFromUpload(JSON.parse(session.options), filePath);
+
+    callback({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Finish upload error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
 // Redeploy existing app
-const redeployApp = async (data: { appName: string }, callback: (response: any) => void) => {
+const redeployApp = async (data: { appName: string; ref?: string }, callback: (response: any) => void) => {
   try {
-    const { appName } = data;
+    const { appName, ref } = data;
     
     if (!appName) {
       callback({
@@ -104,7 +271,15 @@ const redeployApp = async (data: { appName: string }, callback: (response: any)
       return;
     }
 
-    const result = await DeploymentManager.redeploy(appName);
+    if (ref && !isSafeGitRef(ref)) {
+      callback({
+        success: false,
+        error: 'ref must be a commit SHA, tag or branch name and cannot start with -'
+      });
+      return;
+    }
+
+    const result = await DeploymentManager.redeploy(appName, ref);
     callback({
       success: true,
       data: result
@@ -118,13 +293,128 @@ const redeployApp = async (data: { appName: string }, callback: (response: any)
   }
 };
 
+// Roll an app back to a previous successful deployment
+const rollbackApp = (socket: Socket) => async (data: { appName: string; deploymentId: number }, callback: (response: any) => void) => {
+  try {
+    const { appName, deploymentId } = data;
+    
+    if (!appName || !deploymentId) {
+      callback({
+        success: false,
+        error: 'appName and deploymentId are required'
+      });
+      return;
+    }
+
+    // Rollbacks skip the approval queue, so on apps requiring approval only admins can do them
+    const app = dbHelpers.getAppByName(appName) as any;
+    if (app?.requires_approval && !requireAdmin(socket, callback)) return;
+
+    const result = await DeploymentManager.rollback(appName, deploymentId);
+    callback({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Rollback app error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Cancel a queued, building or held deployment
+const cancelDeployment = async (data: { queueId: number }, callback: (response: any) => void) => {
+  try {
+    const { queueId } = data;
+    
+    if (!queueId) {
+      callback({
+        success: false,
+        error: 'queueId is required'
+      });
+      return;
+    }
+
+    DeploymentManager.cancelDeployment(queueId);
+    callback({
+      success: true,
+      message: `Deployment ${queueId} cancelled`
+    });
+  } catch (error) {
+    console.error('Cancel deployment error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Release a deployment awaiting approval into the queue
+const approveDeployment = (socket: Socket) => async (data: { queueId: number }, callback: (response: any) => void) => {
+  try {
+    const { queueId } = data;
+
+    if (!queueId) {
+      callback({
+        success: false,
+        error: 'queueId is required'
+      });
+      return;
+    }
+    if (!requireAdmin(socket, callback)) return;
+
+    DeploymentManager.approveDeployment(queueId, socket.data.user.username);
+    callback({
+      success: true,
+      message: `Deployment ${queueId} approved and queued`
+    });
+  } catch (error) {
+    console.error('Approve deployment error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Reject a deployment awaiting approval
+const rejectDeployment = (socket: Socket) => async (data: { queueId: number; reason?: string }, callback: (response: any) => void) => {
+  try {
+    const { queueId, reason } = data;
+
+    if (!queueId) {
+      callback({
+        success: false,
+        error: 'queueId is required'
+      });
+      return;
+    }
+    if (!requireAdmin(socket, callback)) return;
+
+    await DeploymentManager.rejectDeployment(queueId, socket.data.user.username, reason);
+    callback({
+      success: true,
+      message: `Deployment ${queueId} rejected`
+    });
+  } catch (error) {
+    console.error('Reject deployment error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
 // Get deployment queue status
 const getQueueStatus = async (data: {}, callback: (response: any) => void) => {
   try {
     const queueStatus = DeploymentManager.getQueueStatus();
     callback({
       success: true,
-      data: queueStatus
+      data: queueStatus,
+      recovery: DeploymentManager.getQueueRecovery()
     });
   } catch (error) {
     console.error('Get queue status error:', error);
@@ -136,9 +426,13 @@ const getQueueStatus = async (data: {}, callback: (response: any) => void) => {
 };
 
 // Get specific deployment status
-const getDeploymentStatus = async (data: { queueId: number }, callback: (response: any) => void) => {
+const getDeploymentStatus = async (data: {
+  queueId: number;
+  offset?: number; // Byte offset to read the log from
+  limit?: number; // Maximum number of log bytes to return
+}, callback: (response: any) => void) => {
   try {
-    const { queueId } = data;
+    const { queueId, offset = 0, limit } = data;
     
     if (!queueId) {
       callback({
@@ -148,7 +442,7 @@ const getDeploymentStatus = async (data: { queueId: number }, callback: (respons
       return;
     }
 
-    const status = DeploymentManager.getDeploymentStatus(queueId);
+    const status = await DeploymentManager.getDeploymentStatus(queueId, offset, limit);
     callback({
       success: true,
       data: status
@@ -163,9 +457,15 @@ const getDeploymentStatus = async (data: { queueId: number }, callback: (respons
 };
 
 // Get deployment logs for an app
-const getDeploymentLogs = async (data: { appName: string; limit?: number }, callback: (response: any) => void) => {
+const getDeploymentLogs = async (data: {
+  appName: string;
+  limit?: number;
+  deploymentId?: number; // Only this deployment
+  offset?: number; // Byte offset to read each log from
+  maxBytes?: number; // Maximum number of bytes of each log
+}, callback: (response: any) => void) => {
   try {
-    const { appName, limit = 10 } = data;
+    const { appName, limit = 10, deploymentId, offset = 0, maxBytes } = data;
     
     if (!appName) {
       callback({
@@ -175,7 +475,11 @@ const getDeploymentLogs = async (data: { appName: string; limit?: number }, call
       return;
     }
 
-    const logs = await DeploymentManager.getDeploymentLogs(appName, limit);
+    const logs = await DeploymentManager.getDeploymentLogs(appName, limit, {
+      deploymentId,
+      logOffset: offset,
+      logLimit: maxBytes
+    });
     callback({
       success: true,
       data: { logs }
@@ -189,6 +493,231 @@ const getDeploymentLogs = async (data: { appName: string; limit?: number }, call
   }
 };
 
+// Get the commits a deployment shipped
+const getDeploymentChanges = async (data: { appName: string; deploymentId?: number }, callback: (response: any) => void) => {
+  try {
+    const { appName, deploymentId } = data;
+
+    if (!appName) {
+      callback({
+        success: false,
+        error: 'appName is required'
+      });
+      return;
+    }
+
+    const changes = await DeploymentManager.getDeploymentChanges(appName, deploymentId);
+    callback({
+      success: true,
+      data: changes
+    });
+  } catch (error) {
+    console.error('Get deployment changes error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Shape of a deploy schedule in responses
+const formatSchedule = (schedule: any) => ({
+  id: schedule.id,
+  app_name: schedule.app_name,
+  cron: schedule.cron,
+  run_at: schedule.run_at,
+  ref: schedule.ref,
+  missed_runs: schedule.missed_runs,
+  enabled: !!schedule.enabled,
+  next_run_at: schedule.next_run_at,
+  last_run_at: schedule.last_run_at,
+  last_status: schedule.last_status,
+  last_queue_id: schedule.last_queue_id,
+  last_error: schedule.last_error,
+  created_at: schedule.created_at
+});
+
+// Schedule redeployments of an app
+const createSchedule = async (data: {
+  appName: string;
+  cron?: string; // Recurring
+  runAt?: string; // Once
+  ref?: string;
+  missedRuns?: 'skip' | 'run';
+}, callback: (response: any) => void) => {
+  try {
+    const { appName, cron, runAt, ref, missedRuns } = data;
+
+    if (!appName) {
+      callback({
+        success: false,
+        error: 'appName is required'
+      });
+      return;
+    }
+
+    const id = deploymentScheduler.createSchedule(appName, { cron, runAt, ref, missedRuns });
+    const schedule = dbHelpers.getDeploySchedule(id);
+
+    callback({
+      success: true,
+      data: formatSchedule(schedule),
+      message: `Deployment of ${appName} scheduled successfully`
+    });
+  } catch (error) {
+    console.error('Create schedule error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// List deploy schedules, all of them or an app's
+const getSchedules = async (data: { appName?: string }, callback: (response: any) => void) => {
+  try {
+    const { appName } = data || {};
+    const schedules = deploymentScheduler.listSchedules(appName);
+
+    callback({
+      success: true,
+      data: schedules.map(formatSchedule)
+    });
+  } catch (error) {
+    console.error('Get schedules error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Delete a deploy schedule
+const deleteSchedule = async (data: { id: number }, callback: (response: any) => void) => {
+  try {
+    const { id } = data;
+
+    if (!id) {
+      callback({
+        success: false,
+        error: 'id is required'
+      });
+      return;
+    }
+
+    deploymentScheduler.deleteSchedule(id);
+    callback({
+      success: true,
+      message: `Schedule ${id} deleted successfully`
+    });
+  } catch (error) {
+    console.error('Delete schedule error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Shape of a deploy freeze in responses
+const formatFreeze = (freeze: any) => ({
+  id: freeze.id,
+  app_name: freeze.app_name,
+  type: freeze.type,
+  starts_at: freeze.starts_at,
+  ends_at: freeze.ends_at,
+  weekdays: freeze.weekdays ? freeze.weekdays.split(',').map(Number) : null,
+  start_time: freeze.start_time,
+  end_time: freeze.end_time,
+  reason: freeze.reason,
+  created_at: freeze.created_at
+});
+
+// Add a freeze window, for an app or for every app
+const createFreeze = (socket: Socket) => async (data: {
+  appName?: string; // Every app when not given
+  type: 'range' | 'weekly';
+  startsAt?: string; // Range
+  endsAt?: string; // Range
+  weekdays?: (number | string)[]; // Weekly
+  startTime?: string; // Weekly
+  endTime?: string; // Weekly
+  reason?: string;
+}, callback: (response: any) => void) => {
+  try {
+    if (!data || !data.type) {
+      callback({
+        success: false,
+        error: 'type is required'
+      });
+      return;
+    }
+    if (!requireAdmin(socket, callback)) return;
+
+    const id = deployFreezes.createFreeze(data);
+    const freeze = dbHelpers.getDeployFreeze(id);
+
+    callback({
+      success: true,
+      data: formatFreeze(freeze),
+      message: `Deploy freeze ${data.appName ? `for ${data.appName} ` : ''}created successfully`
+    });
+  } catch (error) {
+    console.error('Create freeze error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// List freeze windows, all of them or the ones applying to an app
+const getFreezes = async (data: { appName?: string }, callback: (response: any) => void) => {
+  try {
+    const { appName } = data || {};
+    const freezes = deployFreezes.listFreezes(appName);
+
+    callback({
+      success: true,
+      data: freezes.map(formatFreeze)
+    });
+  } catch (error) {
+    console.error('Get freezes error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// Delete a freeze window. Deployments it held keep awaiting approval.
+const deleteFreeze = (socket: Socket) => async (data: { id: number }, callback: (response: any) => void) => {
+  try {
+    const { id } = data;
+
+    if (!id) {
+      callback({
+        success: false,
+        error: 'id is required'
+      });
+      return;
+    }
+    if (!requireAdmin(socket, callback)) return;
+
+    deployFreezes.deleteFreeze(id);
+    callback({
+      success: true,
+      message: `Freeze ${id} deleted successfully`
+    });
+  } catch (error) {
+    console.error('Delete freeze error:', error);
+    callback({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
 // Delete an app
 const deleteApp = async (data: { appName: string }, callback: (response: any) => void) => {
   try {
@@ -329,10 +858,25 @@ const clearDeployHistory = async (data: { appName: string }, callback: (response
 export default (server: Server, socket: Socket) => {
   socket.on("deploy:from-git", deployFromGit);
   socket.on("deploy:from-file", deployFromFile);
+  socket.on("deploy:upload:start", startUpload);
+  socket.on("deploy:upload:chunk", uploadChunk);
+  socket.on("deploy:upload:status", getUploadStatus);
+  socket.on("deploy:upload:finish", finishUpload);
   socket.on("deploy:redeploy", redeployApp);
+  socket.on("deploy:rollback", rollbackApp(socket));
+  socket.on("deploy:cancel", cancelDeployment);
+  socket.on("deploy:approve", approveDeployment(socket));
+  socket.on("deploy:reject", rejectDeployment(socket));
   socket.on("deploy:queue-status", getQueueStatus);
   socket.on("deploy:status", getDeploymentStatus);
   socket.on("deploy:logs", getDeploymentLogs);
+  socket.on("deploy:changes", getDeploymentChanges);
+  socket.on("deploy:schedule:create", createSchedule);
+  socket.on("deploy:schedule:list", getSchedules);
+  socket.on("deploy:schedule:delete", deleteSchedule);
+  socket.on("deploy:freeze:create", createFreeze(socket));
+  socket.on("deploy:freeze:list", getFreezes);
+  socket.on("deploy:freeze:delete", deleteFreeze(socket));
   socket.on("deploy:delete", deleteApp);
   socket.on("deploy:stream-logs", streamDeploymentLogs(socket));
   socket.on("deploy:stop-stream", stopStreamDeploymentLogs(socket));
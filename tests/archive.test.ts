@@ -0,0 +1,362 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs, existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import type { ExtractionLimits } from '../lib/archive';
+
+// The archive module reads its default limits from the database, which lives in the working directory
+const workDirectory = path.join(os.tmpdir(), `liteshift-archive-test-${process.pid}`);
+const originalDirectory = process.cwd();
+let archiveExtractor: typeof import('../lib/archive').default;
+
+const LIMITS: ExtractionLimits = { maxBytes: 10 * 1024 * 1024, maxFiles: 100 };
+
+interface TarEntry {
+  name: string;
+  type?: '0' | '2' | '5';
+  content?: Buffer | string;
+  linkName?: string;
+  mode?: number;
+}
+
+interface ZipEntry {
+  name: string;
+  content?: Buffer | string;
+  linkTarget?: string; // Makes the entry a Unix symlink
+  deflate?: boolean;
+  declaredSize?: number; // Lie about the uncompressed size
+}
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const tarHeader = (entry: TarEntry, size: number): Buffer => {
+  const header = Buffer.alloc(512);
+  header.write(entry.name, 0, 100, 'utf8');
+  header.write(`${(entry.mode ?? (entry.type === '5' ? 0o755 : 0o644)).toString(8).padStart(7, '0')}\0`, 100, 'ascii');
+  header.write('0000000\0', 108, 'ascii');
+  header.write('0000000\0', 116, 'ascii');
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124, 'ascii');
+  header.write('00000000000\0', 136, 'ascii');
+  header.write(entry.type ?? '0', 156, 'ascii');
+  header.write(entry.linkName ?? '', 157, 100, 'utf8');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+
+  header.fill(0x20, 148, 156);
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+  return header;
+};
+
+const tarGz = (entries: TarEntry[]): Buffer => {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const content = Buffer.from(entry.content ?? '');
+    blocks.push(tarHeader(entry, content.length), content, Buffer.alloc((512 - (content.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(blocks));
+};
+
+const zip = (entries: ZipEntry[]): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const content = Buffer.from(entry.linkTarget ?? entry.content ?? '');
+    const data = entry.deflate ? zlib.deflateRawSync(content) : content;
+    const method = entry.deflate ? 8 : 0;
+    const size = entry.declaredSize ?? content.length;
+    const crc = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4); // Made on Unix, so the mode is read
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    const fileMode = entry.linkTarget !== undefined ? 0o120777 : entry.name.endsWith('/') ? 0o040755 : 0o100644;
+    central.writeUInt32LE((fileMode << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+let caseCount = 0;
+
+// A fresh destination inside a sandbox, so anything escaping it can be spotted
+const makeDestination = async () => {
+  const sandbox = path.join(workDirectory, `case-${++caseCount}`);
+  const destination = path.join(sandbox, 'release');
+  await fs.mkdir(destination, { recursive: true });
+  return { sandbox, destination };
+};
+
+// The extractor reads archives from disk, like the uploads it is given
+const extract = async (archive: Buffer, destination: string, limits: ExtractionLimits) => {
+  const archivePath = path.join(workDirectory, `archive-${caseCount}`);
+  await fs.writeFile(archivePath, archive);
+  return archiveExtractor.extract(archivePath, destination, limits);
+};
+
+const assertNothingEscaped = async (sandbox: string) => {
+  assert.deepEqual(await fs.readdir(sandbox), ['release']);
+};
+
+describe('archive extraction', () => {
+  before(async () => {
+    await fs.mkdir(workDirectory, { recursive: true });
+    process.chdir(workDirectory);
+    archiveExtractor = (require('../lib/archive') as typeof import('../lib/archive')).default;
+  });
+
+  after(async () => {
+    process.chdir(originalDirectory);
+    await fs.rm(workDirectory, { recursive: true, force: true });
+  });
+
+  describe('valid archives', () => {
+    test('extracts a tar.gz and unwraps its single top-level directory', async () => {
+      const { destination } = await makeDestination();
+      const archive = tarGz([
+        { name: 'project/', type: '5' },
+        { name: 'project/package.json', content: '{}' },
+        { name: 'project/bin/start', content: '#!/bin/sh\n', mode: 0o755 },
+        { name: 'project/link', type: '2', linkName: 'package.json' }
+      ]);
+
+      const result = await extract(archive, destination, LIMITS);
+
+      assert.equal(result.format, 'tar.gz');
+      assert.equal(result.unwrapped, 'project');
+      assert.equal(await fs.readFile(path.join(destination, 'package.json'), 'utf8'), '{}');
+      assert.equal((await fs.stat(path.join(destination, 'bin/start'))).mode & 0o777, 0o755);
+      assert.equal(await fs.readlink(path.join(destination, 'link')), 'package.json');
+    });
+
+    test('extracts stored and deflated zip entries', async () => {
+      const { destination } = await makeDestination();
+      const large = 'x'.repeat(200 * 1024);
+      const archive = zip([
+        { name: 'index.js', content: 'console.log(1)' },
+        { name: 'data/large.txt', content: large, deflate: true }
+      ]);
+
+      const result = await extract(archive, destination, LIMITS);
+
+      assert.equal(result.format, 'zip');
+      assert.equal(result.unwrapped, null);
+      assert.equal(await fs.readFile(path.join(destination, 'data/large.txt'), 'utf8'), large);
+    });
+  });
+
+  describe('path traversal', () => {
+    for (const name of ['../evil.txt', 'a/../../evil.txt', '/tmp/evil.txt']) {
+      test(`rejects the tar.gz entry ${name}`, async () => {
+        const { sandbox, destination } = await makeDestination();
+        await assert.rejects(extract(tarGz([{ name, content: 'evil' }]), destination, LIMITS), /Invalid archive/);
+        await assertNothingEscaped(sandbox);
+      });
+
+      test(`rejects the zip entry ${name}`, async () => {
+        const { sandbox, destination } = await makeDestination();
+        await assert.rejects(extract(zip([{ name, content: 'evil' }]), destination, LIMITS), /Invalid archive/);
+        await assertNothingEscaped(sandbox);
+      });
+    }
+
+    test('rejects backslash separated zip names leading out', async () => {
+      const { sandbox, destination } = await makeDestination();
+      await assert.rejects(extract(zip([{ name: '..\\evil.txt', content: 'evil' }]), destination, LIMITS), /Invalid archive/);
+      await assertNothingEscaped(sandbox);
+    });
+  });
+
+  describe('symlinks', () => {
+    test('rejects an absolute symlink', async () => {
+      const { destination } = await makeDestination();
+      const archive = tarGz([{ name: 'passwd', type: '2', linkName: '/etc/passwd' }]);
+      await assert.rejects(extract(archive, destination, LIMITS), /points outside the archive/);
+    });
+
+    test('rejects a relative symlink leading out', async () => {
+      const { destination } = await makeDestination();
+      const archive = zip([{ name: 'up', linkTarget: '../..' }]);
+      await assert.rejects(extract(archive, destination, LIMITS), /points outside the archive/);
+    });
+
+    test('rejects a chain of symlinks leading out', async () => {
+      const { destination } = await makeDestination();
+      const archive = tarGz([
+        { name: 'a/', type: '5' },
+        { name: 'a/up', type: '2', linkName: '..' },
+        { name: 'out', type: '2', linkName: 'a/up/a/up/..' }
+      ]);
+      await assert.rejects(extract(archive, destination, LIMITS), /points outside the archive/);
+    });
+
+    test('never writes a file through a symlink from the same archive', async () => {
+      const { sandbox, destination } = await makeDestination();
+      const archive = tarGz([
+        { name: 'link', type: '2', linkName: '..' },
+        { name: 'link/evil.txt', content: 'evil' }
+      ]);
+      await assert.rejects(extract(archive, destination, LIMITS));
+      await assertNothingEscaped(sandbox);
+    });
+
+    test('never creates a symlink below an earlier one chained out of the archive', async () => {
+      const { sandbox, destination } = await makeDestination();
+      // Each target stays inside on its own, but `out` leads to the sandbox through `d1/d2/up`
+      const archive = tarGz([
+        { name: 'd1/', type: '5' },
+        { name: 'd1/d2/', type: '5' },
+        { name: 'd1/d2/up', type: '2', linkName: '../..' },
+        { name: 'out', type: '2', linkName: 'd1/d2/up/..' },
+        { name: 'out/escaped/link', type: '2', linkName: '.' }
+      ]);
+      await assert.rejects(extract(archive, destination, LIMITS), /Invalid archive/);
+      await assertNothingEscaped(sandbox);
+    });
+  });
+
+  describe('conflicting entries', () => {
+    // Larger than a write stream's buffer, so the write has to wait for the stream
+    const large = Buffer.alloc(64 * 1024, 'x');
+
+    test('rejects a tar.gz file entry named like an earlier directory', async () => {
+      const { destination } = await makeDestination();
+      const archive = tarGz([
+        { name: 'x/', type: '5' },
+        { name: 'x', content: large }
+      ]);
+      await assert.rejects(extract(archive, destination, LIMITS), /Invalid archive/);
+    });
+
+    test('rejects a tar.gz directory entry named like an earlier file', async () => {
+      const { destination } = await makeDestination();
+      const archive = tarGz([
+        { name: 'x', content: 'file' },
+        { name: 'x/', type: '5' }
+      ]);
+      await assert.rejects(extract(archive, destination, LIMITS));
+    });
+
+    test('rejects a zip file entry named like an earlier directory', async () => {
+      const { destination } = await makeDestination();
+      const archive = zip([
+        { name: 'x/' },
+        { name: 'x', content: large, deflate: true }
+      ]);
+      await assert.rejects(extract(archive, destination, LIMITS), /Invalid archive/);
+    });
+  });
+
+  describe('limits', () => {
+    test('rejects a tar.gz larger than the size limit', async () => {
+      const { destination } = await makeDestination();
+      const archive = tarGz([{ name: 'big.bin', content: Buffer.alloc(2048) }]);
+      await assert.rejects(extract(archive, destination, { maxBytes: 1024, maxFiles: 100 }), /Archive expands to more than/);
+    });
+
+    test('rejects a zip bomb that inflates past its declared size', async () => {
+      const { destination } = await makeDestination();
+      const archive = zip([{ name: 'bomb.bin', content: Buffer.alloc(1024 * 1024), deflate: true, declaredSize: 1024 }]);
+      await assert.rejects(extract(archive, destination, LIMITS), /larger than declared/);
+      const stats = await fs.stat(path.join(destination, 'bomb.bin')).catch(() => null);
+      assert.ok(!stats || stats.size <= 64 * 1024);
+    });
+
+    test('rejects a zip that declares more than the size limit', async () => {
+      const { destination } = await makeDestination();
+      const archive = zip([{ name: 'big.bin', content: Buffer.alloc(2048), deflate: true }]);
+      await assert.rejects(extract(archive, destination, { maxBytes: 1024, maxFiles: 100 }), /Archive expands to more than/);
+      assert.equal(existsSync(path.join(destination, 'big.bin')), false);
+    });
+
+    test('rejects archives with more entries than the file limit', async () => {
+      const { destination } = await makeDestination();
+      const entries = Array.from({ length: 5 }, (_, i) => ({ name: `file-${i}.txt`, content: 'x' }));
+      await assert.rejects(extract(tarGz(entries), destination, { maxBytes: LIMITS.maxBytes, maxFiles: 3 }), /more than 3 entries/);
+    });
+  });
+
+  describe('malformed input', () => {
+    test('rejects a truncated tar.gz', async () => {
+      const { destination } = await makeDestination();
+      const archive = tarGz([{ name: 'file.txt', content: Buffer.alloc(8192, 'x') }]);
+      await assert.rejects(extract(archive.subarray(0, archive.length / 2), destination, LIMITS), /Invalid archive/);
+    });
+
+    test('rejects tar data cut off inside an entry', async () => {
+      const { destination } = await makeDestination();
+      const header = tarHeader({ name: 'file.txt' }, 4096);
+      const archive = zlib.gzipSync(Buffer.concat([header, Buffer.alloc(100, 'x')]));
+      await assert.rejects(extract(archive, destination, LIMITS), /unexpected end of tar data/);
+    });
+
+    test('rejects a tar header with a bad checksum', async () => {
+      const { destination } = await makeDestination();
+      const header = tarHeader({ name: 'file.txt' }, 0);
+      header.write('x', 0, 'ascii');
+      const archive = zlib.gzipSync(Buffer.concat([header, Buffer.alloc(1024)]));
+      await assert.rejects(extract(archive, destination, LIMITS), /checksum mismatch/);
+    });
+
+    test('rejects a truncated zip', async () => {
+      const { destination } = await makeDestination();
+      const archive = zip([{ name: 'file.txt', content: 'hello' }]);
+      await assert.rejects(extract(archive.subarray(0, archive.length - 10), destination, LIMITS), /Invalid archive/);
+    });
+
+    test('rejects a zip entry whose content does not match its CRC', async () => {
+      const { destination } = await makeDestination();
+      const archive = zip([{ name: 'file.txt', content: 'hello' }]);
+      archive[30 + 'file.txt'.length] ^= 0xff;
+      await assert.rejects(extract(archive, destination, LIMITS), /is corrupt/);
+    });
+
+    test('rejects files that are not archives', async () => {
+      const { destination } = await makeDestination();
+      await assert.rejects(extract(Buffer.from('not an archive'), destination, LIMITS), /Unsupported archive format/);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { isSafeGitRef } from '../lib/utils';
+
+// The database lives in the working directory, so every test run gets its own
+const workDirectory = path.join(os.tmpdir(), `liteshift-deployment-test-${process.pid}`);
+const originalDirectory = process.cwd();
+let dbHelpers: typeof import('../lib/db').dbHelpers;
+let deploymentManager: typeof import('../lib/deployment').default;
+let envManager: typeof import('../lib/env').default;
+let releaseManager: typeof import('../lib/releases').default;
+
+// Create an app and its env file, like the env step of a deployment does
+const createApp = async (name: string, rootDirectory: string | null) => {
+  const result = dbHelpers.createApp({ name, branch: 'main', deploy_path: '', start_command: 'node index.js', runtime: 'node' });
+  dbHelpers.updateApp(result.lastInsertRowid as number, { root_directory: rootDirectory });
+  await envManager.updateEnvFile(name);
+};
+
+// Lay out a release of a monorepo and run the install step of a deployment on it
+const installRelease = async (appName: string, deploymentId: number, files: Record<string, string>, installCommand: string) => {
+  const releasePath = releaseManager.getReleasePath(appName, deploymentId);
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(releasePath, file)), { recursive: true });
+    await fs.writeFile(path.join(releasePath, file), content);
+  }
+
+  const context = { appName, deploymentId, releasePath, projectPath: path.join(releasePath, 'apps/web'), log: '', secrets: [] };
+  await (deploymentManager as any).installDependencies(context, installCommand);
+  return { releasePath, log: context.log };
+};
+
+describe('deployments', () => {
+  before(async () => {
+    await fs.mkdir(workDirectory, { recursive: true });
+    process.chdir(workDirectory);
+    dbHelpers = (require('../lib/db') as typeof import('../lib/db')).dbHelpers;
+    dbHelpers.setSetting('apps_directory', path.join(workDirectory, 'apps'));
+    deploymentManager = (require('../lib/deployment') as typeof import('../lib/deployment')).default;
+    envManager = (require('../lib/env') as typeof import('../lib/env')).default;
+    releaseManager = (require('../lib/releases') as typeof import('../lib/releases')).default;
+    (envManager as any).envsDirectory = path.join(workDirectory, 'envs');
+  });
+
+  after(async () => {
+    process.chdir(originalDirectory);
+    await fs.rm(workDirectory, { recursive: true, force: true });
+  });
+
+  describe('git refs', () => {
+    test('accepts commit SHAs, tags and branch names', () => {
+      for (const ref of ['3f2a9c1', 'v1.2.0', 'release/2024-06', 'refs/tags/v1.2.0', 'HEAD~1']) {
+        assert.equal(isSafeGitRef(ref), true, ref);
+      }
+    });
+
+    test('rejects refs git would read as options', () => {
+      for (const ref of ['--upload-pack=touch /tmp/pwned', '-b', '-']) {
+        assert.equal(isSafeGitRef(ref), false, ref);
+      }
+    });
+
+    test('does not queue a deployment of a ref starting with a dash', async () => {
+      for (const options of [{ ref: '--upload-pack=touch /tmp/pwned' }, { branch: '--upload-pack=touch /tmp/pwned' }]) {
+        await assert.rejects(deploymentManager.deployFromGit({
+          appName: 'refs',
+          repository: 'https://example.com/refs.git',
+          ...options
+        }), /Invalid (ref|branch)/);
+      }
+      assert.deepEqual(dbHelpers.getAllQueueItems(), []);
+    });
+  });
+
+  describe('dependency cache', () => {
+    const monorepo = {
+      'package-lock.json': '{"lockfileVersion":3}',
+      'package.json': '{"workspaces":["apps/*"]}',
+      'apps/web/package.json': '{"name":"web"}'
+    };
+
+    test('restores the dependencies a workspace hoisted to the repository root', async () => {
+      await createApp('hoisted', 'apps/web');
+      const runs = path.join(workDirectory, 'hoisted-runs');
+      // Like npm workspaces, everything lands in the repository root's node_modules
+      const installCommand = `mkdir -p ../../node_modules/left-pad && echo 1 > ../../node_modules/left-pad/index.js && echo run >> ${runs}`;
+
+      const first = await installRelease('hoisted', 1, monorepo, installCommand);
+      assert.match(first.log, /Saved dependency cache \(\.\.\/\.\.\/node_modules\)/);
+
+      const second = await installRelease('hoisted', 2, monorepo, installCommand);
+      assert.match(second.log, /Dependency cache hit/);
+      assert.equal(await fs.readFile(path.join(second.releasePath, 'node_modules/left-pad/index.js'), 'utf8'), '1\n');
+      assert.equal(await fs.readFile(runs, 'utf8'), 'run\n');
+    });
+
+    test('runs the install again when it left no dependency directory to cache', async () => {
+      await createApp('pnp', 'apps/web');
+      const runs = path.join(workDirectory, 'pnp-runs');
+      // Like Yarn Plug'n'Play, no node_modules at all
+      const installCommand = `touch ../../.pnp.cjs && echo run >> ${runs}`;
+
+      const first = await installRelease('pnp', 1, monorepo, installCommand);
+      assert.match(first.log, /left no dependency directory to cache/);
+
+      const second = await installRelease('pnp', 2, monorepo, installCommand);
+      assert.doesNotMatch(second.log, /Dependency cache hit/);
+      assert.equal(await fs.readFile(runs, 'utf8'), 'run\nrun\n');
+    });
+  });
+});